@@ -1,4 +1,7 @@
 module.exports = {
-	nodes: [require('./dist/nodes/Aws/SQS/AwsSqsTrigger.node.js')],
+	nodes: [
+		require('./dist/nodes/Aws/SQS/AwsSqs.node.js'),
+		require('./dist/nodes/Aws/SQS/AwsSqsTrigger.node.js'),
+	],
 	credentials: [],
 };
@@ -0,0 +1,104 @@
+import { INodeProperties } from 'n8n-workflow';
+
+export const authenticationProperties: INodeProperties[] = [
+	{
+		displayName: 'Credential Mode',
+		name: 'credentialMode',
+		type: 'options',
+		noDataExpression: true,
+		options: [
+			{
+				name: 'Static Keys',
+				value: 'staticKeys',
+				description: 'Use the access keys of the AWS credential',
+			},
+			{
+				name: 'Default Provider Chain',
+				value: 'defaultProviderChain',
+				description:
+					'Use the AWS default credential provider chain: environment variables, shared config, and EC2/ECS/EKS instance or task roles',
+			},
+			{
+				name: 'Assume Role',
+				value: 'assumeRole',
+				description: 'Assume an IAM role, e.g. to access queues in another account',
+			},
+		],
+		default: 'staticKeys',
+	},
+	{
+		displayName: 'Source Credentials',
+		name: 'assumeRoleSource',
+		type: 'options',
+		options: [
+			{
+				name: 'AWS Credential',
+				value: 'staticKeys',
+				description: 'Assume the role with the access keys of the AWS credential',
+			},
+			{
+				name: 'Default Provider Chain',
+				value: 'defaultProviderChain',
+				description: 'Assume the role with the instance or task role of the n8n host',
+			},
+		],
+		default: 'staticKeys',
+		displayOptions: {
+			show: {
+				credentialMode: ['assumeRole'],
+			},
+		},
+	},
+	{
+		displayName: 'Role ARN',
+		name: 'roleArn',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: 'arn:aws:iam::123456789012:role/my-role',
+		displayOptions: {
+			show: {
+				credentialMode: ['assumeRole'],
+			},
+		},
+		description: 'ARN of the IAM role to assume',
+	},
+	{
+		displayName: 'External ID',
+		name: 'externalId',
+		type: 'string',
+		default: '',
+		displayOptions: {
+			show: {
+				credentialMode: ['assumeRole'],
+			},
+		},
+		description: 'External ID required by the trust policy of the role, if any',
+	},
+	{
+		displayName: 'Role Session Name',
+		name: 'roleSessionName',
+		type: 'string',
+		default: 'n8n-aws-sqs',
+		displayOptions: {
+			show: {
+				credentialMode: ['assumeRole'],
+			},
+		},
+		description: 'Identifier of the assumed role session, visible in CloudTrail',
+	},
+	{
+		displayName: 'Region',
+		name: 'region',
+		type: 'string',
+		default: '',
+		placeholder: 'us-east-1',
+		displayOptions: {
+			show: {
+				credentialMode: ['defaultProviderChain', 'assumeRole'],
+			},
+		},
+		description:
+			'AWS region of the queues. When empty, the region of the AWS credential or the AWS_REGION environment variable is used.',
+	},
+];
@@ -0,0 +1,617 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	JsonObject,
+	NodeApiError,
+	NodeConnectionTypes,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import {
+	SQSClient,
+	SendMessageCommand,
+	SendMessageBatchCommand,
+	SendMessageCommandInput,
+	SendMessageBatchCommandOutput,
+	SendMessageBatchRequestEntry,
+	MessageAttributeValue,
+} from '@aws-sdk/client-sqs';
+
+import {
+	createSqsClient,
+	getAwsAuthentication,
+	getQueues,
+	getSqsEndpoint,
+	isFifoQueue,
+	resolveQueueUrl,
+	searchQueues,
+} from './GenericFunctions';
+import { authenticationProperties } from './AuthenticationDescription';
+import { queueProperty } from './QueueDescription';
+
+const MAX_BATCH_ENTRIES = 10;
+const MAX_BATCH_PAYLOAD_SIZE = 262144;
+
+type QueueUrlResolver = (itemIndex: number) => Promise<string>;
+
+interface BatchEntry {
+	itemIndex: number;
+	entry: SendMessageBatchRequestEntry;
+	size: number;
+}
+
+/* eslint-disable @n8n/community-nodes/no-credential-reuse */
+export class AwsSqs implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'AWS SQS',
+		name: 'awsSqs',
+		icon: 'file:awssqs.svg',
+		group: ['output'],
+		version: 1,
+		subtitle: `={{$parameter["operation"]}}`,
+		description: 'Send messages to AWS SQS',
+		defaults: {
+			name: 'AWS SQS',
+		},
+		inputs: [NodeConnectionTypes.Main],
+		outputs: `={{$parameter["operation"] === "sendMessageBatch" && $parameter["onFailedEntries"] === "output" ? [{ type: "${NodeConnectionTypes.Main}", displayName: "Success" }, { type: "${NodeConnectionTypes.Main}", displayName: "Failed" }] : ["${NodeConnectionTypes.Main}"]}}`,
+		credentials: [
+			{
+				name: 'aws',
+				required: true,
+				displayOptions: {
+					hide: {
+						credentialMode: ['defaultProviderChain'],
+						assumeRoleSource: ['defaultProviderChain'],
+					},
+				},
+			},
+		],
+		properties: [
+			...authenticationProperties,
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Send Message',
+						value: 'sendMessage',
+						description: 'Send a message to a queue',
+						action: 'Send a message',
+					},
+					{
+						name: 'Send Message Batch',
+						value: 'sendMessageBatch',
+						description: 'Send items to a queue in batches of up to 10 messages',
+						action: 'Send messages in batches',
+					},
+				],
+				default: 'sendMessage',
+			},
+			queueProperty,
+			{
+				displayName: 'Body Type',
+				name: 'bodyType',
+				type: 'options',
+				options: [
+					{
+						name: 'Input Item JSON',
+						value: 'inputData',
+						description: 'Send the JSON of the incoming item as the message body',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Send a custom JSON object as the message body',
+					},
+					{
+						name: 'Raw String',
+						value: 'raw',
+						description: 'Send a string as the message body without any conversion',
+					},
+				],
+				default: 'inputData',
+			},
+			{
+				displayName: 'JSON Body',
+				name: 'jsonBody',
+				type: 'json',
+				default: '{}',
+				displayOptions: {
+					show: {
+						bodyType: ['json'],
+					},
+				},
+				description: 'JSON object to send as the message body',
+			},
+			{
+				displayName: 'Message',
+				name: 'message',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						bodyType: ['raw'],
+					},
+				},
+				description: 'String to send as the message body',
+			},
+			{
+				displayName: 'On Failed Entries',
+				name: 'onFailedEntries',
+				type: 'options',
+				options: [
+					{
+						name: 'Stop Workflow',
+						value: 'error',
+						description: 'Fail the node when any entry of a batch could not be sent',
+					},
+					{
+						name: 'Output to Failed Branch',
+						value: 'output',
+						description: 'Pass items that could not be sent through a second output',
+					},
+				],
+				default: 'error',
+				displayOptions: {
+					show: {
+						operation: ['sendMessageBatch'],
+					},
+				},
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Delay Seconds',
+						name: 'delaySeconds',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+							maxValue: 900,
+						},
+						description:
+							'The length of time (in seconds) for which to delay the message. Not supported by FIFO queues.',
+					},
+					{
+						displayName: 'Endpoint URL',
+						name: 'endpoint',
+						type: 'string',
+						default: '',
+						placeholder: 'http://localhost:4566',
+						description:
+							'Custom SQS endpoint, e.g. LocalStack, ElasticMQ or a VPC interface endpoint. Overrides the custom SQS endpoint of the credential.',
+					},
+					{
+						displayName: 'Message Attributes',
+						name: 'messageAttributes',
+						type: 'fixedCollection',
+						placeholder: 'Add Attribute',
+						typeOptions: {
+							multipleValues: true,
+						},
+						default: {},
+						options: [
+							{
+								displayName: 'Attribute',
+								name: 'attribute',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										description: 'Name of the message attribute',
+									},
+									{
+										displayName: 'Data Type',
+										name: 'dataType',
+										type: 'options',
+										options: [
+											{
+												name: 'Binary',
+												value: 'Binary',
+											},
+											{
+												name: 'Number',
+												value: 'Number',
+											},
+											{
+												name: 'String',
+												value: 'String',
+											},
+										],
+										default: 'String',
+										description: 'Data type of the message attribute',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										default: '',
+										description:
+											'Value of the message attribute. Binary values must be base64 encoded.',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Message Deduplication ID',
+						name: 'messageDeduplicationId',
+						type: 'string',
+						default: '',
+						description:
+							'Token used for deduplication of sent messages. Only applies to FIFO queues.',
+					},
+					{
+						displayName: 'Message Group ID',
+						name: 'messageGroupId',
+						type: 'string',
+						default: '',
+						description:
+							'Tag that specifies that a message belongs to a specific message group. Required for FIFO queues.',
+					},
+				],
+			},
+		],
+		usableAsTool: true,
+	};
+
+	methods = {
+		loadOptions: {
+			getQueues,
+		},
+		listSearch: {
+			searchQueues,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const operation = this.getNodeParameter('operation', 0) as string;
+
+		const options = this.getNodeParameter('options', 0, {}) as IDataObject;
+
+		const authentication = await getAwsAuthentication.call(this, (parameterName) =>
+			this.getNodeParameter(parameterName, 0, ''),
+		);
+		const endpoint = getSqsEndpoint(authentication, options);
+		const sqsClient = createSqsClient(authentication, endpoint);
+		const getQueueUrl = createQueueUrlResolver.call(this, sqsClient, endpoint);
+
+		try {
+			if (operation === 'sendMessageBatch') {
+				return await sendMessageBatch.call(this, sqsClient, getQueueUrl);
+			}
+
+			return [await sendMessage.call(this, sqsClient, getQueueUrl)];
+		} finally {
+			sqsClient.destroy();
+		}
+	}
+}
+
+/**
+ * Returns a function that resolves the queue of an item to its URL. Names and ARNs are
+ * resolved once per distinct value, as the queue is usually the same for all items.
+ */
+function createQueueUrlResolver(
+	this: IExecuteFunctions,
+	sqsClient: SQSClient,
+	endpoint?: string,
+): QueueUrlResolver {
+	const queueUrls = new Map<string, string>();
+
+	return async (itemIndex: number) => {
+		const queue = this.getNodeParameter('queue', itemIndex, '', { extractValue: true }) as string;
+
+		let queueUrl = queueUrls.get(queue);
+		if (queueUrl === undefined) {
+			try {
+				queueUrl = await resolveQueueUrl(sqsClient, queue, endpoint);
+			} catch (error) {
+				throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex });
+			}
+			queueUrls.set(queue, queueUrl);
+		}
+
+		return queueUrl;
+	};
+}
+
+async function sendMessage(
+	this: IExecuteFunctions,
+	sqsClient: SQSClient,
+	getQueueUrl: QueueUrlResolver,
+): Promise<INodeExecutionData[]> {
+	const items = this.getInputData();
+	const returnData: INodeExecutionData[] = [];
+
+	for (let i = 0; i < items.length; i++) {
+		try {
+			const queueUrl = await getQueueUrl(i);
+			const sendParams = buildSendMessageInput.call(this, items[i], i, queueUrl);
+			const response = await sqsClient.send(new SendMessageCommand(sendParams));
+
+			returnData.push({
+				json: {
+					messageId: response.MessageId,
+					sequenceNumber: response.SequenceNumber,
+					md5OfMessageBody: response.MD5OfMessageBody,
+					md5OfMessageAttributes: response.MD5OfMessageAttributes,
+				},
+				pairedItem: { item: i },
+			});
+		} catch (error) {
+			if (this.continueOnFail()) {
+				returnData.push({
+					json: { error: (error as Error).message },
+					pairedItem: { item: i },
+				});
+				continue;
+			}
+
+			if (error instanceof NodeOperationError || error instanceof NodeApiError) {
+				throw error;
+			}
+
+			throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex: i });
+		}
+	}
+
+	return returnData;
+}
+
+async function sendMessageBatch(
+	this: IExecuteFunctions,
+	sqsClient: SQSClient,
+	getQueueUrl: QueueUrlResolver,
+): Promise<INodeExecutionData[][]> {
+	const items = this.getInputData();
+	const onFailedEntries = this.getNodeParameter('onFailedEntries', 0, 'error') as string;
+
+	const results: Array<INodeExecutionData | undefined> = new Array(items.length);
+	const failures: Array<INodeExecutionData | undefined> = new Array(items.length);
+
+	const reportFailure = (itemIndex: number, error: IDataObject) => {
+		if (onFailedEntries === 'output') {
+			failures[itemIndex] = {
+				json: { ...items[itemIndex].json, error },
+				pairedItem: { item: itemIndex },
+			};
+		} else if (this.continueOnFail()) {
+			results[itemIndex] = {
+				json: { error: error.message as string },
+				pairedItem: { item: itemIndex },
+			};
+		} else {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Failed to send message: ${error.message as string}`,
+				{ itemIndex, description: error.code as string | undefined },
+			);
+		}
+	};
+
+	const entriesByQueue = new Map<string, BatchEntry[]>();
+	for (let i = 0; i < items.length; i++) {
+		let sendParams: SendMessageCommandInput;
+		try {
+			sendParams = buildSendMessageInput.call(this, items[i], i, await getQueueUrl(i));
+		} catch (error) {
+			if (onFailedEntries === 'output' || this.continueOnFail()) {
+				reportFailure(i, { code: 'InvalidParameters', message: (error as Error).message });
+				continue;
+			}
+			throw error;
+		}
+
+		const { QueueUrl: queueUrl, ...entry } = sendParams;
+		const batchEntry: BatchEntry = {
+			itemIndex: i,
+			entry: { Id: String(i), ...entry } as SendMessageBatchRequestEntry,
+			size: getPayloadSize(sendParams),
+		};
+
+		if (batchEntry.size > MAX_BATCH_PAYLOAD_SIZE) {
+			reportFailure(i, {
+				code: 'BatchEntryTooLong',
+				message: `Message payload of ${batchEntry.size} bytes exceeds the limit of ${MAX_BATCH_PAYLOAD_SIZE} bytes`,
+			});
+			continue;
+		}
+
+		const queueEntries = entriesByQueue.get(queueUrl as string) ?? [];
+		queueEntries.push(batchEntry);
+		entriesByQueue.set(queueUrl as string, queueEntries);
+	}
+
+	for (const [queueUrl, entries] of entriesByQueue) {
+		for (const batch of chunkBatchEntries(entries)) {
+			let response: SendMessageBatchCommandOutput;
+			try {
+				response = await sqsClient.send(
+					new SendMessageBatchCommand({
+						QueueUrl: queueUrl,
+						Entries: batch.map(({ entry }) => entry),
+					}),
+				);
+			} catch (error) {
+				if (onFailedEntries !== 'output' && !this.continueOnFail()) {
+					throw new NodeApiError(this.getNode(), error as JsonObject, {
+						itemIndex: batch[0].itemIndex,
+					});
+				}
+				for (const { itemIndex } of batch) {
+					reportFailure(itemIndex, {
+						code: (error as IDataObject).name as string,
+						message: (error as Error).message,
+					});
+				}
+				continue;
+			}
+
+			for (const successful of response.Successful ?? []) {
+				const itemIndex = Number(successful.Id);
+				results[itemIndex] = {
+					json: {
+						messageId: successful.MessageId,
+						sequenceNumber: successful.SequenceNumber,
+						md5OfMessageBody: successful.MD5OfMessageBody,
+						md5OfMessageAttributes: successful.MD5OfMessageAttributes,
+					},
+					pairedItem: { item: itemIndex },
+				};
+			}
+
+			for (const failed of response.Failed ?? []) {
+				reportFailure(Number(failed.Id), {
+					code: failed.Code,
+					message: failed.Message,
+					senderFault: failed.SenderFault,
+				});
+			}
+		}
+	}
+
+	const returnData = results.filter((item): item is INodeExecutionData => item !== undefined);
+	if (onFailedEntries !== 'output') {
+		return [returnData];
+	}
+
+	return [returnData, failures.filter((item): item is INodeExecutionData => item !== undefined)];
+}
+
+function buildSendMessageInput(
+	this: IExecuteFunctions,
+	item: INodeExecutionData,
+	itemIndex: number,
+	queueUrl: string,
+): SendMessageCommandInput {
+	const bodyType = this.getNodeParameter('bodyType', itemIndex) as string;
+	const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
+
+	let messageBody: string;
+	if (bodyType === 'raw') {
+		messageBody = this.getNodeParameter('message', itemIndex) as string;
+	} else if (bodyType === 'json') {
+		const jsonBody = this.getNodeParameter('jsonBody', itemIndex);
+		if (typeof jsonBody === 'string') {
+			try {
+				messageBody = JSON.stringify(JSON.parse(jsonBody));
+			} catch {
+				throw new NodeOperationError(this.getNode(), 'JSON Body must be valid JSON', {
+					itemIndex,
+				});
+			}
+		} else {
+			messageBody = JSON.stringify(jsonBody);
+		}
+	} else {
+		messageBody = JSON.stringify(item.json);
+	}
+
+	const sendParams: SendMessageCommandInput = {
+		QueueUrl: queueUrl,
+		MessageBody: messageBody,
+	};
+
+	const fifo = isFifoQueue(queueUrl);
+
+	if (options.delaySeconds) {
+		if (fifo) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Delay Seconds is not supported for FIFO queues. Set the delay on the queue instead.',
+				{ itemIndex },
+			);
+		}
+		sendParams.DelaySeconds = options.delaySeconds as number;
+	}
+
+	if (options.messageGroupId) {
+		sendParams.MessageGroupId = options.messageGroupId as string;
+	} else if (fifo) {
+		throw new NodeOperationError(this.getNode(), 'Message Group ID is required for FIFO queues.', {
+			itemIndex,
+		});
+	}
+
+	if (options.messageDeduplicationId) {
+		sendParams.MessageDeduplicationId = options.messageDeduplicationId as string;
+	}
+
+	const attributes = ((options.messageAttributes as IDataObject)?.attribute ?? []) as IDataObject[];
+	if (attributes.length > 0) {
+		sendParams.MessageAttributes = {};
+		for (const attribute of attributes) {
+			sendParams.MessageAttributes[attribute.name as string] = toMessageAttributeValue(
+				attribute.dataType as string,
+				attribute.value as string,
+			);
+		}
+	}
+
+	return sendParams;
+}
+
+function toMessageAttributeValue(dataType: string, value: string): MessageAttributeValue {
+	if (dataType === 'Binary') {
+		return { DataType: dataType, BinaryValue: Buffer.from(value, 'base64') };
+	}
+
+	return { DataType: dataType, StringValue: String(value) };
+}
+
+function getPayloadSize(sendParams: SendMessageCommandInput): number {
+	let size = Buffer.byteLength(sendParams.MessageBody ?? '');
+
+	for (const [name, attribute] of Object.entries(sendParams.MessageAttributes ?? {})) {
+		size += Buffer.byteLength(name) + Buffer.byteLength(attribute.DataType ?? '');
+		size += attribute.BinaryValue
+			? attribute.BinaryValue.length
+			: Buffer.byteLength(attribute.StringValue ?? '');
+	}
+
+	return size;
+}
+
+function chunkBatchEntries(entries: BatchEntry[]): BatchEntry[][] {
+	const batches: BatchEntry[][] = [];
+	let current: BatchEntry[] = [];
+	let currentSize = 0;
+
+	for (const entry of entries) {
+		if (
+			current.length === MAX_BATCH_ENTRIES ||
+			(current.length > 0 && currentSize + entry.size > MAX_BATCH_PAYLOAD_SIZE)
+		) {
+			batches.push(current);
+			current = [];
+			currentSize = 0;
+		}
+
+		current.push(entry);
+		currentSize += entry.size;
+	}
+
+	if (current.length > 0) {
+		batches.push(current);
+	}
+
+	return batches;
+}
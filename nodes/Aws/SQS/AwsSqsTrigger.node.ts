@@ -1,27 +1,195 @@
 import {
+	IBinaryKeyData,
 	IDataObject,
-	ILoadOptionsFunctions,
 	INodeExecutionData,
-	INodePropertyOptions,
+	INodeParameters,
+	INodeProperties,
 	INodeType,
 	INodeTypeDescription,
+	IRun,
 	ITriggerFunctions,
 	ITriggerResponse,
 	JsonObject,
 	NodeApiError,
-	NodeConnectionTypes,
 	NodeOperationError,
 } from 'n8n-workflow';
 
 import {
-	SQSClient,
+	Message,
 	ReceiveMessageCommand,
-	DeleteMessageCommand,
-	DeleteMessageBatchCommand,
-	ListQueuesCommand,
 	ReceiveMessageCommandInput,
 	QueueAttributeName,
 } from '@aws-sdk/client-sqs';
+import { S3Client } from '@aws-sdk/client-s3';
+import { ValidateFunction } from 'ajv';
+import { randomUUID } from 'crypto';
+
+import {
+	DeleteFailure,
+	FilterRule,
+	S3Pointer,
+	changeMessageVisibility,
+	compileBodySchema,
+	createWeightedRotation,
+	createS3Client,
+	createSqsClient,
+	decodeBody,
+	deleteMessages,
+	deleteS3Payload,
+	flattenMessageAttributes,
+	getAwsAuthentication,
+	getBackoffDelay,
+	getDeduplicationKey,
+	getQueueName,
+	getQueues,
+	getS3Endpoint,
+	getS3Payload,
+	getS3Pointer,
+	getSqsEndpoint,
+	groupFifoMessages,
+	isFifoQueue,
+	isTransientError,
+	listAllQueueUrls,
+	matchesFilterRule,
+	pruneDeduplicationCache,
+	resolveQueueUrl,
+	searchQueues,
+	sendToDeadLetterQueue,
+	startVisibilityHeartbeat,
+	toEndpointQueueUrl,
+	unwrapEnvelope,
+} from './GenericFunctions';
+import { authenticationProperties } from './AuthenticationDescription';
+import { queueProperty } from './QueueDescription';
+
+// Fields shared by the filter and routing rules, see matchesFilterRule
+const ruleFields: INodeProperties[] = [
+	{
+		displayName: 'Source',
+		name: 'source',
+		type: 'options',
+		options: [
+			{
+				name: 'Message Attribute',
+				value: 'messageAttribute',
+			},
+			{
+				name: 'Body',
+				value: 'body',
+			},
+		],
+		default: 'messageAttribute',
+		description: 'Whether to check a message attribute or a path of parsedBody',
+	},
+	{
+		displayName: 'Key',
+		name: 'key',
+		type: 'string',
+		default: '',
+		placeholder: 'eventType',
+		description:
+			'Name of the message attribute, or dot path in parsedBody (e.g. detail.items[0].sku)',
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		options: [
+			{
+				name: 'Equals',
+				value: 'equals',
+			},
+			{
+				name: 'Exists',
+				value: 'exists',
+			},
+			{
+				name: 'In List',
+				value: 'in',
+			},
+			{
+				name: 'Numeric Range',
+				value: 'between',
+			},
+			{
+				name: 'Starts With',
+				value: 'prefix',
+			},
+		],
+		default: 'equals',
+	},
+	{
+		displayName: 'Value',
+		name: 'value',
+		type: 'string',
+		default: '',
+		displayOptions: {
+			show: {
+				operation: ['equals', 'in', 'prefix'],
+			},
+		},
+		description: 'Value to compare with. For In List, a comma-separated list.',
+	},
+	{
+		displayName: 'Minimum',
+		name: 'minimum',
+		type: 'number',
+		default: 0,
+		displayOptions: {
+			show: {
+				operation: ['between'],
+			},
+		},
+		description: 'Smallest matching value (inclusive)',
+	},
+	{
+		displayName: 'Maximum',
+		name: 'maximum',
+		type: 'number',
+		default: 0,
+		displayOptions: {
+			show: {
+				operation: ['between'],
+			},
+		},
+		description: 'Largest matching value (inclusive)',
+	},
+];
+
+// Outputs of the trigger: one per routing rule plus a fallback, and the Invalid output of
+// Validate Body. Evaluated by the editor, so it cannot use anything outside the function.
+const configuredOutputs = (parameters: INodeParameters) => {
+	const options = (parameters.options ?? {}) as IDataObject;
+	const routes = ((options.routingRules as IDataObject)?.route ?? []) as IDataObject[];
+	const invalidOutput =
+		options.validateBody !== undefined && (options.invalidMessageAction ?? 'output') === 'output';
+
+	const outputs: Array<{ type: string; displayName?: string }> = routes.length
+		? [
+				...routes.map((route, index) => ({
+					type: 'main',
+					displayName: (route.outputName as string) || `Output ${index + 1}`,
+				})),
+				{ type: 'main', displayName: 'Fallback' },
+			]
+		: [{ type: 'main', displayName: invalidOutput ? 'Valid' : undefined }];
+	if (invalidOutput) {
+		outputs.push({ type: 'main', displayName: 'Invalid' });
+	}
+	return outputs;
+};
+
+const MAX_TRANSIENT_RETRIES = 5;
+const MAX_DEAD_LETTER_FAILURES = 3;
+const BACKOFF_BASE_DELAY = 1000;
+const BACKOFF_MAX_DELAY = 300000;
+
+// The messages a poll received, and how many of them were handled rather than returned to
+// the queue right away
+interface PollResult {
+	received: number;
+	handled: number;
+}
 
 /* eslint-disable @n8n/community-nodes/no-credential-reuse */
 export class AwsSqsTrigger implements INodeType {
@@ -30,21 +198,62 @@ export class AwsSqsTrigger implements INodeType {
 		name: 'awsSqsTrigger',
 		icon: 'file:awssqs.svg',
 		group: ['trigger'],
-		version: 1,
-		subtitle: `={{$parameter["queue"]}}`,
+		version: [1, 2],
+		defaultVersion: 2,
+		subtitle: `={{$parameter["queueSelection"] === "multiple" ? $parameter["queues"].length + " queues" : $parameter["queueSelection"] === "prefix" ? $parameter["queueNamePrefix"] + "*" : $parameter["queue"].value || $parameter["queue"]}}`,
 		description: 'Consume queue messages from AWS SQS',
 		defaults: {
 			name: 'AWS SQS Trigger',
 		},
 		inputs: [],
-		outputs: [NodeConnectionTypes.Main],
+		outputs: `={{(${configuredOutputs})($parameter)}}`,
 		credentials: [
 			{
 				name: 'aws',
 				required: true,
+				displayOptions: {
+					hide: {
+						credentialMode: ['defaultProviderChain'],
+						assumeRoleSource: ['defaultProviderChain'],
+					},
+				},
 			},
 		],
 		properties: [
+			...authenticationProperties,
+			{
+				displayName: 'Queue Selection',
+				name: 'queueSelection',
+				type: 'options',
+				options: [
+					{
+						name: 'Single Queue',
+						value: 'single',
+					},
+					{
+						name: 'Multiple Queues',
+						value: 'multiple',
+						description: 'Poll every queue selected from the list',
+					},
+					{
+						name: 'By Name Prefix',
+						value: 'prefix',
+						description: 'Poll every queue whose name starts with a prefix',
+					},
+				],
+				default: 'single',
+				description: 'Which queues to poll. Each queue is polled with its own loop.',
+			},
+			{
+				...queueProperty,
+				displayOptions: {
+					show: {
+						'@version': [2],
+						queueSelection: ['single'],
+					},
+				},
+			},
+			// Version 1 stores the queue URL as a plain string
 			{
 				displayName: 'Queue Name or ID',
 				name: 'queue',
@@ -57,6 +266,43 @@ export class AwsSqsTrigger implements INodeType {
 				required: true,
 				description:
 					'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				displayOptions: {
+					show: {
+						'@version': [1],
+						queueSelection: ['single'],
+					},
+				},
+			},
+			{
+				displayName: 'Queue Names or IDs',
+				name: 'queues',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getQueues',
+				},
+				default: [],
+				required: true,
+				displayOptions: {
+					show: {
+						queueSelection: ['multiple'],
+					},
+				},
+				description:
+					'Queues to poll. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Queue Name Prefix',
+				name: 'queueNamePrefix',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: 'orders-',
+				displayOptions: {
+					show: {
+						queueSelection: ['prefix'],
+					},
+				},
+				description: 'Poll every queue whose name starts with this prefix',
 			},
 			{
 				displayName: 'Interval',
@@ -96,6 +342,34 @@ export class AwsSqsTrigger implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
+					{
+						displayName: 'Acknowledge Mode',
+						name: 'acknowledgeMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Immediately',
+								value: 'immediately',
+								description:
+									'Delete messages as soon as they are received, before the workflow runs',
+							},
+							{
+								name: 'When Execution Finishes Successfully',
+								value: 'executionFinishesSuccessfully',
+								description:
+									'Delete messages only after the workflow execution succeeds. Failed executions leave them in the queue.',
+							},
+							{
+								name: 'Never',
+								value: 'never',
+								description:
+									'Never delete messages. The workflow is responsible for deleting them.',
+							},
+						],
+						default: 'immediately',
+						description:
+							'When received messages are deleted from the queue. Ignored when Delete Messages is disabled.',
+					},
 					{
 						displayName: 'Attribute Names',
 						name: 'attributeNames',
@@ -103,6 +377,204 @@ export class AwsSqsTrigger implements INodeType {
 						default: 'All',
 						description: 'Queue attribute names to retrieve. Use "All" to retrieve all attributes.',
 					},
+					{
+						displayName: 'Batch Size',
+						name: 'batchSize',
+						type: 'number',
+						default: 10,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'Number of messages to collect over repeated receives before emitting them in a single execution. Only applies when larger than Max Number Of Messages or when a Batch Window is set.',
+					},
+					{
+						displayName: 'Batch Window',
+						name: 'batchWindow',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Maximum time (in seconds) to keep collecting messages for a batch. When 0, messages are collected until the queue returns no more messages or Batch Size is reached.',
+					},
+					{
+						displayName: 'Binary Output',
+						name: 'binaryOutput',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to output the decoded body as binary data instead of body and parsedBody. Binary message attributes are output as binary data named attribute_<name>.',
+					},
+					{
+						displayName: 'Binary Property',
+						name: 'binaryPropertyName',
+						type: 'string',
+						default: 'data',
+						displayOptions: {
+							show: {
+								binaryOutput: [true],
+							},
+						},
+						description: 'Name of the binary property to write the decoded body to',
+					},
+					{
+						displayName: 'Body Compression',
+						name: 'bodyCompression',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+							},
+							{
+								name: 'Auto-Detect',
+								value: 'auto',
+								description: 'Decompress gzip and zlib content, leave anything else as it is',
+							},
+							{
+								name: 'Gzip',
+								value: 'gzip',
+							},
+							{
+								name: 'Deflate',
+								value: 'deflate',
+							},
+						],
+						default: 'none',
+						description: 'Compression of the body, applied after Body Encoding',
+					},
+					{
+						displayName: 'Body Encoding',
+						name: 'bodyEncoding',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+							},
+							{
+								name: 'Base64',
+								value: 'base64',
+							},
+						],
+						default: 'none',
+						description: 'Encoding of the body, decoded before decompression',
+					},
+					{
+						displayName: 'Body Format',
+						name: 'bodyFormat',
+						type: 'options',
+						options: [
+							{
+								name: 'JSON',
+								value: 'json',
+								description: 'Parse the decoded body as JSON, falling back to text',
+							},
+							{
+								name: 'Text',
+								value: 'text',
+								description: 'Keep the decoded body as text',
+							},
+						],
+						default: 'json',
+						description: 'How to parse the decoded body into parsedBody',
+					},
+					{
+						displayName: 'Concurrency',
+						name: 'concurrency',
+						type: 'number',
+						default: 1,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'Number of independent receive loops polling the queue at the same time. Increase it to scale the receive rate for busy queues.',
+					},
+					{
+						displayName: 'Dead-Letter Queue URL',
+						name: 'deadLetterQueueUrl',
+						type: 'string',
+						default: '',
+						placeholder: 'https://sqs.us-east-1.amazonaws.com/123456789012/my-queue-dlq',
+						description:
+							'Queue that messages exceeding Max Receive Count, or failing Validate Body, are moved to',
+					},
+					{
+						displayName: 'Deduplication',
+						name: 'deduplication',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+							},
+							{
+								name: 'By Message ID',
+								value: 'messageId',
+								description: 'Skip messages with a MessageId that was already emitted',
+							},
+							{
+								name: 'By Message Attribute',
+								value: 'messageAttribute',
+								description:
+									'Skip messages with a message attribute value that was already emitted',
+							},
+							{
+								name: 'By Body Path',
+								value: 'body',
+								description: 'Skip messages with a parsedBody value that was already emitted',
+							},
+						],
+						default: 'none',
+						description:
+							'Whether to skip and delete messages that were already emitted, e.g. messages delivered more than once by a standard queue. Seen keys are kept in the workflow static data.',
+					},
+					{
+						displayName: 'Deduplication Cache Size',
+						name: 'deduplicationCacheSize',
+						type: 'number',
+						default: 10000,
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							hide: {
+								deduplication: ['none'],
+							},
+						},
+						description: 'Maximum number of keys to remember. The oldest keys are dropped first.',
+					},
+					{
+						displayName: 'Deduplication Key',
+						name: 'deduplicationKey',
+						type: 'string',
+						default: '',
+						placeholder: 'orderId',
+						displayOptions: {
+							show: {
+								deduplication: ['messageAttribute', 'body'],
+							},
+						},
+						description:
+							'Name of the message attribute, or dot path in parsedBody (e.g. detail.orderId), to deduplicate by',
+					},
+					{
+						displayName: 'Deduplication TTL',
+						name: 'deduplicationTtl',
+						type: 'number',
+						default: 3600,
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							hide: {
+								deduplication: ['none'],
+							},
+						},
+						description: 'How long to remember an emitted key, in seconds',
+					},
 					{
 						displayName: 'Delete Messages',
 						name: 'deleteMessages',
@@ -110,6 +582,161 @@ export class AwsSqsTrigger implements INodeType {
 						default: true,
 						description: 'Whether to delete messages after receiving them',
 					},
+					{
+						displayName: 'Delete Messages When Testing',
+						name: 'deleteOnManualTest',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to delete the messages received by "Test step" in the editor. By default they are returned to the queue right away.',
+					},
+					{
+						displayName: 'Endpoint URL',
+						name: 'endpoint',
+						type: 'string',
+						default: '',
+						placeholder: 'http://localhost:4566',
+						description:
+							'Custom SQS endpoint, e.g. LocalStack, ElasticMQ or a VPC interface endpoint. Overrides the custom SQS endpoint of the credential.',
+					},
+					{
+						displayName: 'Envelope',
+						name: 'envelope',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+								description: 'Use the message body as it is',
+							},
+							{
+								name: 'Auto-Detect',
+								value: 'auto',
+								description: 'Unwrap SNS, EventBridge and S3 envelopes when they are recognized',
+							},
+							{
+								name: 'SNS',
+								value: 'sns',
+								description: 'Unwrap the Message of SNS notifications',
+							},
+							{
+								name: 'EventBridge',
+								value: 'eventBridge',
+								description: 'Unwrap the detail of EventBridge events',
+							},
+							{
+								name: 'S3',
+								value: 's3',
+								description: 'Unwrap the Records of S3 event notifications',
+							},
+						],
+						default: 'none',
+						description:
+							'Envelope to unwrap into parsedBody. The envelope metadata is output in the envelope field.',
+					},
+					{
+						displayName: 'Extend Visibility',
+						name: 'extendVisibility',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								acknowledgeMode: ['executionFinishesSuccessfully'],
+							},
+						},
+						description:
+							'Whether to keep extending the visibility timeout of messages while the execution is running, so SQS does not redeliver them during long executions',
+					},
+					{
+						displayName: 'FIFO Mode',
+						name: 'fifoMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Auto-Detect',
+								value: 'auto',
+								description: 'Enable FIFO handling for queues whose name ends with .fifo',
+							},
+							{
+								name: 'Disabled',
+								value: 'disabled',
+								description: 'Handle FIFO queues like standard queues',
+							},
+						],
+						default: 'auto',
+						description:
+							'FIFO handling emits one execution per message group in SequenceNumber order, and does not start the next execution of a group before the previous one has finished. With Acknowledge Mode "Immediately", messages are deleted once their execution has finished, so SQS holds back the rest of their group meanwhile. Their visibility is extended until then in both acknowledge modes.',
+					},
+					{
+						displayName: 'Filter Match',
+						name: 'filterMatch',
+						type: 'options',
+						options: [
+							{
+								name: 'All Rules',
+								value: 'all',
+							},
+							{
+								name: 'Any Rule',
+								value: 'any',
+							},
+						],
+						default: 'all',
+						description: 'Whether a message must match all Filter Rules or at least one of them',
+					},
+					{
+						displayName: 'Filter Rules',
+						name: 'filterRules',
+						type: 'fixedCollection',
+						placeholder: 'Add Rule',
+						typeOptions: {
+							multipleValues: true,
+						},
+						default: {},
+						description:
+							'Only messages matching the rules trigger an execution. Others are handled according to Unmatched Message Action.',
+						options: [
+							{
+								displayName: 'Rule',
+								name: 'rule',
+								values: ruleFields,
+							},
+						],
+					},
+					{
+						displayName: 'Flatten Message Attributes',
+						name: 'flattenMessageAttributes',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to output message attributes as plain values, with numbers converted and binary values decoded. The raw attributes are output in rawMessageAttributes.',
+					},
+					{
+						displayName: 'Invalid Message Action',
+						name: 'invalidMessageAction',
+						type: 'options',
+						options: [
+							{
+								name: 'Route to Invalid Output',
+								value: 'output',
+								description: 'Emit invalid items on a second output, with their validation errors',
+							},
+							{
+								name: 'Move to Dead-Letter Queue',
+								value: 'moveToDeadLetterQueue',
+								description:
+									'Send invalid messages to the Dead-Letter Queue URL with a FailureReason attribute, then delete them',
+							},
+							{
+								name: 'Return to Queue',
+								value: 'release',
+								description:
+									'Make invalid messages visible again right away, without emitting them. The next poll receives them again, and waits for the interval even in Continuous mode.',
+							},
+						],
+						default: 'output',
+						description: 'What to do with messages whose body fails Validate Body',
+					},
 					{
 						displayName: 'Max Number Of Messages',
 						name: 'maxNumberOfMessages',
@@ -122,6 +749,35 @@ export class AwsSqsTrigger implements INodeType {
 						description:
 							'Maximum number of messages to return. SQS never returns more messages than this value but might return fewer.',
 					},
+					{
+						displayName: 'Max Receive Count',
+						name: 'maxReceiveCount',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Messages received more often than this (ApproximateReceiveCount) are not emitted, but handled according to Poison Message Action. Use it for queues without a redrive policy. 0 disables the check.',
+					},
+					{
+						displayName: 'Max Visibility Extension',
+						name: 'maxVisibilityExtension',
+						type: 'number',
+						default: 3600,
+						typeOptions: {
+							minValue: 1,
+							maxValue: 43200,
+						},
+						displayOptions: {
+							show: {
+								acknowledgeMode: ['executionFinishesSuccessfully'],
+								extendVisibility: [true],
+							},
+						},
+						description:
+							'Maximum total time (in seconds) that messages are kept invisible by the heartbeat. SQS allows at most 12 hours.',
+					},
 					{
 						displayName: 'Message Attribute Names',
 						name: 'messageAttributeNames',
@@ -131,76 +787,284 @@ export class AwsSqsTrigger implements INodeType {
 							'Message attribute names to retrieve. Use "All" to retrieve all attributes.',
 					},
 					{
-						displayName: 'Visibility Timeout',
-						name: 'visibilityTimeout',
-						type: 'number',
-						default: 30,
+						displayName: 'Poison Message Action',
+						name: 'poisonMessageAction',
+						type: 'options',
+						options: [
+							{
+								name: 'Move to Dead-Letter Queue',
+								value: 'moveToDeadLetterQueue',
+								description:
+									'Send the message to the Dead-Letter Queue URL with a FailureReason attribute, then delete it',
+							},
+							{
+								name: 'Drop',
+								value: 'drop',
+								description: 'Delete the message without processing it',
+							},
+						],
+						default: 'moveToDeadLetterQueue',
+						description: 'What to do with messages exceeding Max Receive Count',
+					},
+					{
+						displayName: 'Polling Mode',
+						name: 'pollingMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Interval',
+								value: 'interval',
+								description: 'Wait for the configured interval between every poll',
+							},
+							{
+								name: 'Continuous',
+								value: 'continuous',
+								description:
+									'Poll again right away while the queue returns messages, and only wait for the interval (or the long-poll wait time) when it is empty',
+							},
+						],
+						default: 'interval',
+						description: 'How the trigger schedules receive requests',
+					},
+					{
+						displayName: 'Polling Strategy',
+						name: 'pollingStrategy',
+						type: 'options',
+						options: [
+							{
+								name: 'Parallel',
+								value: 'parallel',
+								description: 'Poll every queue with its own loop',
+							},
+							{
+								name: 'Strict Priority',
+								value: 'priority',
+								description:
+									'Poll the queues with the highest priority first, and lower priorities only when all higher ones are empty',
+							},
+							{
+								name: 'Weighted',
+								value: 'weighted',
+								description: 'Share the polls between the queues in proportion to their priority',
+							},
+						],
+						default: 'parallel',
+						displayOptions: {
+							show: {
+								'/queueSelection': ['multiple', 'prefix'],
+							},
+						},
 						description:
-							'The duration (in seconds) that the received messages are hidden from subsequent retrieve requests after being retrieved by a receive message request',
+							'How multiple queues are polled. Strict Priority and Weighted use one loop for all queues (or one per Concurrency).',
 					},
 					{
-						displayName: 'Wait Time Seconds',
-						name: 'waitTimeSeconds',
-						type: 'number',
-						default: 0,
+						displayName: 'Queue Priorities',
+						name: 'queuePriorities',
+						type: 'fixedCollection',
+						placeholder: 'Add Queue Priority',
 						typeOptions: {
-							minValue: 0,
-							maxValue: 20,
+							multipleValues: true,
 						},
-						description:
-							'Enable long-polling with a non-zero number of seconds. Maximum 20 seconds.',
+						default: {},
+						displayOptions: {
+							show: {
+								'/queueSelection': ['multiple', 'prefix'],
+							},
+						},
+						description: 'Priorities used by the Strict Priority and Weighted polling strategies',
+						options: [
+							{
+								displayName: 'Queue Priority',
+								name: 'queuePriority',
+								values: [
+									{
+										displayName: 'Queue',
+										name: 'queue',
+										type: 'string',
+										default: '',
+										placeholder: 'orders-high',
+										description: 'Name or URL of the queue',
+									},
+									{
+										displayName: 'Priority',
+										name: 'priority',
+										type: 'number',
+										typeOptions: {
+											minValue: 1,
+										},
+										default: 1,
+										description:
+											'Higher priorities are polled first, or more often with the Weighted strategy. Queues without a priority have priority 1.',
+									},
+								],
+							},
+						],
 					},
-				],
-			},
-		],
-		usableAsTool: true,
-	};
-
-	methods = {
-		loadOptions: {
-			async getQueues(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const credentials = await this.getCredentials('aws');
-
-				const sqsClient = new SQSClient({
-					region: credentials.region as string,
-					credentials: {
-						accessKeyId: credentials.accessKeyId as string,
-						secretAccessKey: credentials.secretAccessKey as string,
-						sessionToken: credentials.sessionToken as string,
+					{
+						displayName: 'Release Messages On Failure',
+						name: 'releaseOnFailure',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								acknowledgeMode: ['executionFinishesSuccessfully'],
+							},
+						},
+						description:
+							'Whether to reset the visibility timeout of messages to 0 when the execution fails, so SQS redelivers them right away instead of after the visibility timeout',
 					},
-				});
-
-				try {
-					const command = new ListQueuesCommand({});
-					const response = await sqsClient.send(command);
-
-					if (!response.QueueUrls || response.QueueUrls.length === 0) {
-						return [];
-					}
-
-					return response.QueueUrls.map((queueUrl: string) => {
-						const urlParts = queueUrl.split('/');
-						const name = urlParts[urlParts.length - 1];
-
-						return {
-							name,
-							value: queueUrl,
-						};
-					});
-				} catch (error) {
-					throw new NodeApiError(this.getNode(), error as JsonObject);
-				} finally {
-					sqsClient.destroy();
-				}
+					{
+						displayName: 'Routing Rules',
+						name: 'routingRules',
+						type: 'fixedCollection',
+						placeholder: 'Add Route',
+						typeOptions: {
+							multipleValues: true,
+						},
+						default: {},
+						description:
+							'Adds an output per route. Items go to the first matching route, or to the Fallback output when none matches.',
+						options: [
+							{
+								displayName: 'Route',
+								name: 'route',
+								values: [
+									{
+										displayName: 'Output Name',
+										name: 'outputName',
+										type: 'string',
+										default: '',
+										placeholder: 'Order Created',
+										description: 'Name of the output of this route',
+									},
+									...ruleFields,
+								],
+							},
+						],
+					},
+					{
+						displayName: 'S3 Endpoint URL',
+						name: 's3Endpoint',
+						type: 'string',
+						default: '',
+						placeholder: 'http://localhost:4566',
+						description:
+							'Custom S3 endpoint used to fetch offloaded payloads, e.g. LocalStack or MinIO. Overrides the custom S3 endpoint of the credential.',
+					},
+					{
+						displayName: 'S3 Payloads',
+						name: 's3Payloads',
+						type: 'options',
+						options: [
+							{
+								name: 'Fetch',
+								value: 'fetch',
+								description: 'Replace pointer messages with the payload stored in S3',
+							},
+							{
+								name: 'Fetch and Delete',
+								value: 'fetchAndDelete',
+								description:
+									'Replace pointer messages with the payload stored in S3, and delete the S3 object when the message is deleted',
+							},
+							{
+								name: 'Ignore',
+								value: 'ignore',
+								description: 'Emit pointer messages as they are',
+							},
+						],
+						default: 'fetch',
+						description:
+							'How to handle large payloads that the SQS Extended Client stored in S3, sending a pointer as message body',
+					},
+					{
+						displayName: 'Split S3 Records',
+						name: 'splitS3Records',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								envelope: ['auto', 's3'],
+							},
+						},
+						description:
+							'Whether to output one item per record of an S3 event notification instead of one item with all records',
+					},
+					{
+						displayName: 'Unmatched Message Action',
+						name: 'unmatchedMessageAction',
+						type: 'options',
+						options: [
+							{
+								name: 'Return to Queue',
+								value: 'release',
+								description:
+									'Make the messages visible again right away. The next poll receives them again, and waits for the interval even in Continuous mode.',
+							},
+							{
+								name: 'Delete',
+								value: 'delete',
+								description: 'Delete the messages from the queue',
+							},
+							{
+								name: 'Ignore',
+								value: 'ignore',
+								description: 'Leave the messages until their visibility timeout expires',
+							},
+						],
+						default: 'release',
+						description: 'What to do with messages that do not match the Filter Rules',
+					},
+					{
+						displayName: 'Validate Body',
+						name: 'validateBody',
+						type: 'json',
+						default: '{\n  "type": "object"\n}',
+						description:
+							'JSON Schema that parsedBody must match. Invalid messages are handled according to Invalid Message Action.',
+					},
+					{
+						displayName: 'Visibility Timeout',
+						name: 'visibilityTimeout',
+						type: 'number',
+						default: 30,
+						description:
+							'The duration (in seconds) that the received messages are hidden from subsequent retrieve requests after being retrieved by a receive message request',
+					},
+					{
+						displayName: 'Wait Time Seconds',
+						name: 'waitTimeSeconds',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+							maxValue: 20,
+						},
+						description:
+							'Enable long-polling with a non-zero number of seconds. Maximum 20 seconds.',
+					},
+				],
 			},
+		],
+		usableAsTool: true,
+	};
+
+	methods = {
+		loadOptions: {
+			getQueues,
+		},
+		listSearch: {
+			searchQueues,
 		},
 	};
 
 	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
-		const queueUrl = this.getNodeParameter('queue') as string;
+		const queue = this.getNodeParameter('queue', '', { extractValue: true }) as string;
 		const interval = this.getNodeParameter('interval') as number;
 		const unit = this.getNodeParameter('unit') as string;
 		const options = this.getNodeParameter('options', {}) as IDataObject;
+		const queueSelection =
+			(this.getNodeParameter('queueSelection', 'single') as string) || 'single';
 
 		if (interval <= 0) {
 			throw new NodeOperationError(
@@ -216,6 +1080,11 @@ export class AwsSqsTrigger implements INodeType {
 			}
 		}
 
+		const concurrency = (options.concurrency as number) ?? 1;
+		if (concurrency < 1) {
+			throw new NodeOperationError(this.getNode(), 'Concurrency must be at least 1.');
+		}
+
 		let intervalValue = interval;
 		if (unit === 'minutes') {
 			intervalValue *= 60;
@@ -230,104 +1099,1066 @@ export class AwsSqsTrigger implements INodeType {
 			throw new NodeApiError(this.getNode(), { message: 'The interval value is too large.' });
 		}
 
-		const credentials = await this.getCredentials('aws');
-		const sqsClient = new SQSClient({
-			region: credentials.region as string,
-			credentials: {
-				accessKeyId: credentials.accessKeyId as string,
-				secretAccessKey: credentials.secretAccessKey as string,
-				sessionToken: credentials.sessionToken as string,
-			},
-		});
+		// A Batch Window without a Batch Size collects up to the default Batch Size of the UI
+		const batchSize = (options.batchSize as number) ?? (options.batchWindow !== undefined ? 10 : 1);
+		const batchWindow = (options.batchWindow as number) ?? 0;
+		if (batchSize < 1 || batchWindow < 0) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Batch Size must be at least 1 and Batch Window cannot be negative.',
+			);
+		}
+		// A Batch Window always batches, so up to N messages are collected for at most T seconds
+		const batching = batchSize > ((options.maxNumberOfMessages as number) ?? 1) || batchWindow > 0;
+		const visibilityTimeout = (options.visibilityTimeout as number) ?? 30;
+		const maxVisibilityExtension = (options.maxVisibilityExtension as number) ?? 3600;
 
-		const executeTrigger = async () => {
+		const maxReceiveCount = (options.maxReceiveCount as number) ?? 0;
+		const poisonMessageAction = (options.poisonMessageAction as string) ?? 'moveToDeadLetterQueue';
+		const deadLetterQueueUrl = options.deadLetterQueueUrl as string | undefined;
+		if (
+			maxReceiveCount > 0 &&
+			poisonMessageAction === 'moveToDeadLetterQueue' &&
+			!deadLetterQueueUrl
+		) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Dead-Letter Queue URL is required to move messages exceeding Max Receive Count.',
+			);
+		}
+
+		let validateBody: ValidateFunction | undefined;
+		if (options.validateBody !== undefined) {
 			try {
-				const receiveParams: ReceiveMessageCommandInput = {
+				validateBody = compileBodySchema(options.validateBody);
+			} catch (error) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Validate Body must be a valid JSON Schema: ${(error as Error).message}`,
+				);
+			}
+		}
+		const invalidMessageAction = (options.invalidMessageAction as string) ?? 'output';
+		if (validateBody && invalidMessageAction === 'moveToDeadLetterQueue' && !deadLetterQueueUrl) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Dead-Letter Queue URL is required to move messages failing Validate Body.',
+			);
+		}
+		const filterRules = ((options.filterRules as IDataObject)?.rule ?? []) as FilterRule[];
+		const filterMatch = (options.filterMatch as string) ?? 'all';
+		const unmatchedMessageAction = (options.unmatchedMessageAction as string) ?? 'release';
+		const routingRules = ((options.routingRules as IDataObject)?.route ?? []) as FilterRule[];
+
+		const deduplication = (options.deduplication as string) ?? 'none';
+		const deduplicationKey = (options.deduplicationKey as string) ?? '';
+		if (['messageAttribute', 'body'].includes(deduplication) && !deduplicationKey) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Deduplication Key is required to deduplicate by message attribute or body path.',
+			);
+		}
+		const deduplicationTtl = (options.deduplicationTtl as number) ?? 3600;
+		const deduplicationCacheSize = (options.deduplicationCacheSize as number) ?? 10000;
+
+		const invalidOutput = validateBody !== undefined && invalidMessageAction === 'output';
+
+		const s3Payloads = (options.s3Payloads as string) ?? 'fetch';
+		const bodyEncoding = (options.bodyEncoding as string) ?? 'none';
+		const bodyCompression = (options.bodyCompression as string) ?? 'none';
+		const bodyFormat = (options.bodyFormat as string) ?? 'json';
+		const binaryOutput = options.binaryOutput === true;
+		const binaryPropertyName = (options.binaryPropertyName as string) || 'data';
+		const envelope = (options.envelope as string) ?? 'none';
+		const flattenAttributes = options.flattenMessageAttributes === true;
+		const splitS3Records = options.splitS3Records === true;
+
+		const acknowledgeMode =
+			options.deleteMessages === false
+				? 'never'
+				: ((options.acknowledgeMode as string) ?? 'immediately');
+
+		const authentication = await getAwsAuthentication.call(this, (parameterName) =>
+			this.getNodeParameter(parameterName, ''),
+		);
+		const endpoint = getSqsEndpoint(authentication, options);
+		const sqsClient = createSqsClient(authentication, endpoint);
+
+		let queueUrls: string[];
+		try {
+			if (queueSelection === 'prefix') {
+				const queueNamePrefix = this.getNodeParameter('queueNamePrefix', '') as string;
+				queueUrls = (await listAllQueueUrls(sqsClient, queueNamePrefix)).map((queueUrl) =>
+					endpoint ? toEndpointQueueUrl(queueUrl, endpoint) : queueUrl,
+				);
+			} else {
+				const queues =
+					queueSelection === 'multiple'
+						? (this.getNodeParameter('queues', []) as string[])
+						: [queue];
+				queueUrls = await Promise.all(
+					queues.map(async (value) => await resolveQueueUrl(sqsClient, value, endpoint)),
+				);
+			}
+		} catch (error) {
+			sqsClient.destroy();
+			throw new NodeApiError(this.getNode(), error as JsonObject);
+		}
+
+		queueUrls = [...new Set(queueUrls)];
+		if (queueUrls.length === 0) {
+			sqsClient.destroy();
+			throw new NodeOperationError(
+				this.getNode(),
+				queueSelection === 'prefix'
+					? 'No queues found with the given Queue Name Prefix.'
+					: 'Select at least one queue to poll.',
+			);
+		}
+
+		// Items are tagged with their queue as soon as more than one queue may be polled
+		const tagQueue = queueSelection !== 'single';
+		const isFifo = (queueUrl: string) => options.fifoMode !== 'disabled' && isFifoQueue(queueUrl);
+
+		let s3Client: S3Client | undefined;
+		const getS3Client = () =>
+			(s3Client ??= createS3Client(authentication, getS3Endpoint(authentication, options)));
+		const s3Pointers = new WeakMap<Message, S3Pointer>();
+		const originalMessages = new WeakMap<Message, Message>();
+		const s3Errors = new WeakMap<Message, string>();
+
+		// Deduplication keys mapped to the time they expire at, kept across restarts
+		let seenMessages: Record<string, number> = {};
+		if (deduplication !== 'none') {
+			const staticData = this.getWorkflowStaticData('node');
+			seenMessages = (staticData.seenMessages ??= {}) as Record<string, number>;
+		}
+		const deduplicationKeys = new WeakMap<Message, string>();
+		// Keys of messages whose execution has not finished yet. It may still fail, so their
+		// duplicates are skipped without being deleted.
+		const inFlightKeys = new Set<string>();
+
+		let running = true;
+		const abortController = new AbortController();
+		const heartbeats = new Set<() => void>();
+		// FIFO message groups with an execution that has not finished yet, per queue URL
+		const activeGroups = new Map<string, Set<string>>(
+			queueUrls.map((queueUrl) => [queueUrl, new Set<string>()]),
+		);
+		// Messages of those groups by message ID, per queue URL
+		const activeMessages = new Map<string, Map<string, Message>>(
+			queueUrls.map((queueUrl) => [queueUrl, new Map<string, Message>()]),
+		);
+
+		const receiveParams: Omit<ReceiveMessageCommandInput, 'QueueUrl'> = {
+			MessageAttributeNames: [(options.messageAttributeNames as string) || 'All'],
+			AttributeNames: [((options.attributeNames as string) || 'All') as QueueAttributeName],
+		};
+
+		if (maxReceiveCount > 0 && !receiveParams.AttributeNames!.includes('All')) {
+			receiveParams.AttributeNames!.push('ApproximateReceiveCount' as QueueAttributeName);
+		}
+
+		if (queueUrls.some(isFifo) && !receiveParams.AttributeNames!.includes('All')) {
+			receiveParams.AttributeNames!.push(
+				'MessageGroupId' as QueueAttributeName,
+				'SequenceNumber' as QueueAttributeName,
+			);
+		}
+
+		if (options.visibilityTimeout !== undefined) {
+			receiveParams.VisibilityTimeout = options.visibilityTimeout as number;
+		}
+
+		if (options.maxNumberOfMessages !== undefined) {
+			receiveParams.MaxNumberOfMessages = options.maxNumberOfMessages as number;
+		}
+
+		if (options.waitTimeSeconds !== undefined) {
+			receiveParams.WaitTimeSeconds = options.waitTimeSeconds as number;
+		}
+
+		if (batching) {
+			// Messages of the first receive must stay hidden for the whole window as well
+			receiveParams.MaxNumberOfMessages = Math.min(10, batchSize);
+			receiveParams.VisibilityTimeout = visibilityTimeout + batchWindow;
+		}
+
+		const receive = async (params: ReceiveMessageCommandInput): Promise<Message[]> => {
+			const response = await sqsClient.send(new ReceiveMessageCommand(params), {
+				abortSignal: abortController.signal,
+			});
+			return response.Messages ?? [];
+		};
+
+		const receiveMessages = async (
+			queueUrl: string,
+			receiveRequestAttemptId?: string,
+		): Promise<Message[]> => {
+			const messages = await receive(
+				receiveRequestAttemptId
+					? {
+							...receiveParams,
+							QueueUrl: queueUrl,
+							ReceiveRequestAttemptId: receiveRequestAttemptId,
+						}
+					: { ...receiveParams, QueueUrl: queueUrl },
+			);
+			if (!batching || messages.length === 0) {
+				return messages;
+			}
+
+			const windowEnd = Date.now() + batchWindow * 1000;
+			while (running && messages.length < batchSize) {
+				const remaining = Math.max(0, Math.ceil((windowEnd - Date.now()) / 1000));
+				const received = await receive({
+					...receiveParams,
 					QueueUrl: queueUrl,
-					MessageAttributeNames: [(options.messageAttributeNames as string) || 'All'],
-					AttributeNames: [((options.attributeNames as string) || 'All') as QueueAttributeName],
+					MaxNumberOfMessages: Math.min(10, batchSize - messages.length),
+					WaitTimeSeconds: Math.min(20, remaining),
+					VisibilityTimeout: visibilityTimeout + remaining,
+				});
+				messages.push(...received);
+
+				if (received.length === 0 && remaining === 0) {
+					break;
+				}
+				if (batchWindow > 0 && Date.now() >= windowEnd) {
+					break;
+				}
+			}
+
+			return messages;
+		};
+
+		// Messages that could not be deleted will be delivered again
+		const reportDeleteFailures = (failures: DeleteFailure[]) => {
+			if (failures.length === 0) {
+				return;
+			}
+
+			this.emitError(
+				new NodeOperationError(
+					this.getNode(),
+					`Failed to delete ${failures.length} SQS message(s), they will be delivered again`,
+					{
+						description: failures
+							.map(({ message, code, reason }) => `${message.MessageId}: ${code} - ${reason}`)
+							.join('\n'),
+					},
+				),
+			);
+		};
+
+		// Failed attempts to move a message to the dead-letter queue, per message ID
+		const deadLetterFailures = new Map<string, number>();
+
+		// Sends every message to the dead-letter queue on its own and deletes the ones that were
+		// sent. The others come back after their visibility timeout; a message failing again and
+		// again is reported once.
+		const moveToDeadLetterQueue = async (
+			queueUrl: string,
+			messages: Message[],
+			getReason: (message: Message) => string,
+		): Promise<Message[]> => {
+			const moved: Message[] = [];
+			for (const message of messages) {
+				const messageId = message.MessageId ?? '';
+				try {
+					await sendToDeadLetterQueue(
+						sqsClient,
+						deadLetterQueueUrl!,
+						originalMessages.get(message) ?? message,
+						getReason(message),
+					);
+					deadLetterFailures.delete(messageId);
+					moved.push(message);
+				} catch (error) {
+					const failures = (deadLetterFailures.get(messageId) ?? 0) + 1;
+					deadLetterFailures.set(messageId, failures);
+					this.logger.error(
+						`Failed to move SQS message ${messageId} to the dead-letter queue: ${(error as Error).message}`,
+					);
+					if (failures === MAX_DEAD_LETTER_FAILURES) {
+						this.emitError(
+							new NodeOperationError(
+								this.getNode(),
+								`Failed to move SQS message ${messageId} to the dead-letter queue ${failures} times`,
+								{ description: (error as Error).message },
+							),
+						);
+					}
+				}
+			}
+
+			if (moved.length > 0) {
+				reportDeleteFailures(await deleteMessages(sqsClient, queueUrl, moved));
+			}
+			return moved;
+		};
+
+		// Moves or drops messages received more often than allowed, and returns the others
+		const handlePoisonMessages = async (
+			queueUrl: string,
+			received: Message[],
+		): Promise<Message[]> => {
+			const getReceiveCount = (message: Message) =>
+				Number(message.Attributes?.ApproximateReceiveCount ?? 0);
+			const poisonMessages = received.filter(
+				(message) => getReceiveCount(message) > maxReceiveCount,
+			);
+			if (poisonMessages.length === 0) {
+				return received;
+			}
+
+			try {
+				if (poisonMessageAction === 'moveToDeadLetterQueue') {
+					const moved = await moveToDeadLetterQueue(
+						queueUrl,
+						poisonMessages,
+						(message) =>
+							`Exceeded max receive count of ${maxReceiveCount} (received ${getReceiveCount(message)} times)`,
+					);
+					this.logger.warn(
+						`Moved ${moved.length} SQS message(s) exceeding the max receive count of ${maxReceiveCount}`,
+					);
+				} else {
+					reportDeleteFailures(await deleteMessages(sqsClient, queueUrl, poisonMessages));
+					this.logger.warn(
+						`Dropped ${poisonMessages.length} SQS message(s) exceeding the max receive count of ${maxReceiveCount}`,
+					);
+				}
+			} catch (error) {
+				// The messages come back after the visibility timeout and are handled again
+				this.logger.error(`Failed to handle poison SQS messages: ${(error as Error).message}`);
+			}
+
+			return received.filter((message) => !poisonMessages.includes(message));
+		};
+
+		// Replaces the body of Extended Client pointer messages with the payload stored in S3.
+		// Messages whose payload cannot be fetched keep the pointer as body, with the error.
+		const loadS3Payloads = async (messages: Message[]): Promise<Message[]> => {
+			if (s3Payloads === 'ignore') {
+				return messages;
+			}
+
+			return await Promise.all(
+				messages.map(async (message) => {
+					const pointer = getS3Pointer(message.Body);
+					if (!pointer) {
+						return message;
+					}
+
+					let payload: string;
+					try {
+						payload = await getS3Payload(getS3Client(), pointer);
+					} catch (error) {
+						s3Errors.set(message, (error as Error).message);
+						return message;
+					}
+
+					const payloadMessage = { ...message, Body: payload };
+					s3Pointers.set(payloadMessage, pointer);
+					originalMessages.set(payloadMessage, message);
+					return payloadMessage;
+				}),
+			);
+		};
+
+		const acknowledgeMessages = async (
+			queueUrl: string,
+			messages: Message[],
+		): Promise<DeleteFailure[]> => {
+			const failures = await deleteMessages(sqsClient, queueUrl, messages);
+
+			if (s3Payloads === 'fetchAndDelete') {
+				const failed = failures.map(({ message }) => message);
+				for (const message of messages) {
+					const pointer = s3Pointers.get(message);
+					if (pointer && !failed.includes(message)) {
+						await deleteS3Payload(getS3Client(), pointer).catch((error: Error) =>
+							this.logger.warn(
+								`Failed to delete S3 payload s3://${pointer.bucket}/${pointer.key}: ${error.message}`,
+							),
+						);
+					}
+				}
+			}
+
+			return failures;
+		};
+
+		// One item per message, or one per record of split S3 event notifications
+		const toExecutionData = async (
+			queueUrl: string,
+			message: Message,
+		): Promise<INodeExecutionData[]> => {
+			const json: IDataObject = {
+				messageId: message.MessageId,
+				receiptHandle: message.ReceiptHandle,
+				attributes: message.Attributes || {},
+				messageAttributes: message.MessageAttributes || {},
+				md5OfBody: message.MD5OfBody,
+				md5OfMessageAttributes: message.MD5OfMessageAttributes,
+			};
+
+			if (tagQueue) {
+				json.queueUrl = queueUrl;
+				json.queueName = getQueueName(queueUrl);
+			}
+
+			if (flattenAttributes) {
+				json.messageAttributes = flattenMessageAttributes(message.MessageAttributes ?? {});
+				json.rawMessageAttributes = message.MessageAttributes || {};
+			}
+
+			const pointer = s3Pointers.get(message);
+			if (pointer) {
+				json.s3Payload = { bucket: pointer.bucket, key: pointer.key };
+			}
+			if (s3Errors.has(message)) {
+				json.s3Error = s3Errors.get(message);
+			}
+
+			let content: Buffer | undefined;
+			if (bodyEncoding !== 'none' || bodyCompression !== 'none' || binaryOutput) {
+				try {
+					content = decodeBody(message.Body ?? '', bodyEncoding, bodyCompression);
+				} catch (error) {
+					json.decodeError = (error as Error).message;
+				}
+			}
+
+			if (binaryOutput && content) {
+				const binary: IBinaryKeyData = {
+					[binaryPropertyName]: await this.helpers.prepareBinaryData(content),
 				};
+				for (const [name, attribute] of Object.entries(message.MessageAttributes ?? {})) {
+					if (attribute.BinaryValue) {
+						binary[`attribute_${name}`] = await this.helpers.prepareBinaryData(
+							Buffer.from(attribute.BinaryValue),
+						);
+					}
+				}
+				return [{ json, binary }];
+			}
+
+			const body = content ? content.toString('utf-8') : message.Body;
+			let parsedBody;
+			if (bodyFormat === 'text') {
+				parsedBody = body;
+			} else {
+				try {
+					parsedBody = body ? JSON.parse(body) : {};
+				} catch {
+					parsedBody = body;
+				}
+			}
+			json.body = body;
+			json.parsedBody = parsedBody;
+
+			if (envelope === 'none') {
+				return [{ json }];
+			}
+
+			const { payload, metadata } = unwrapEnvelope(parsedBody, envelope);
+			if (!metadata) {
+				return [{ json }];
+			}
+
+			if (metadata.type === 's3' && splitS3Records) {
+				return (payload as IDataObject[]).map((record, recordIndex) => ({
+					json: { ...json, parsedBody: record, envelope: { ...metadata, recordIndex } },
+				}));
+			}
+
+			return [{ json: { ...json, parsedBody: payload as IDataObject, envelope: metadata } }];
+		};
+
+		// Deletes messages with a key that was already emitted within the TTL, skips those with
+		// a key that is still in flight, and returns the others
+		const skipDuplicates = async (
+			queueUrl: string,
+			messages: Message[],
+			itemsByMessage: INodeExecutionData[][],
+		): Promise<{ messages: Message[]; itemsByMessage: INodeExecutionData[][] }> => {
+			pruneDeduplicationCache(seenMessages, deduplicationCacheSize);
+
+			const receivedKeys = new Set<string>();
+			const uniqueMessages: Message[] = [];
+			const uniqueItems: INodeExecutionData[][] = [];
+			const duplicates: Message[] = [];
+			let inFlight = 0;
 
-				if (options.visibilityTimeout !== undefined) {
-					receiveParams.VisibilityTimeout = options.visibilityTimeout as number;
+			messages.forEach((message, index) => {
+				const key = getDeduplicationKey(
+					message,
+					deduplication,
+					deduplicationKey,
+					itemsByMessage[index][0]?.json.parsedBody,
+				);
+				if (key !== undefined && inFlightKeys.has(key)) {
+					inFlight++;
+					return;
+				}
+				if (key !== undefined && (seenMessages[key] !== undefined || receivedKeys.has(key))) {
+					duplicates.push(message);
+					return;
 				}
 
-				if (options.maxNumberOfMessages !== undefined) {
-					receiveParams.MaxNumberOfMessages = options.maxNumberOfMessages as number;
+				if (key !== undefined) {
+					receivedKeys.add(key);
+					deduplicationKeys.set(message, key);
 				}
+				uniqueMessages.push(message);
+				uniqueItems.push(itemsByMessage[index]);
+			});
 
-				if (options.waitTimeSeconds !== undefined) {
-					receiveParams.WaitTimeSeconds = options.waitTimeSeconds as number;
+			if (inFlight > 0) {
+				this.logger.debug(`Skipped ${inFlight} SQS message(s) with an execution in flight`);
+			}
+			if (duplicates.length > 0) {
+				try {
+					reportDeleteFailures(await acknowledgeMessages(queueUrl, duplicates));
+					this.logger.debug(`Skipped ${duplicates.length} duplicate SQS message(s)`);
+				} catch (error) {
+					this.logger.error(`Failed to delete duplicate SQS messages: ${(error as Error).message}`);
 				}
+			}
 
-				const receiveCommand = new ReceiveMessageCommand(receiveParams);
-				const response = await sqsClient.send(receiveCommand);
+			return { messages: uniqueMessages, itemsByMessage: uniqueItems };
+		};
 
-				if (response.Messages && response.Messages.length > 0) {
-					const returnMessages: INodeExecutionData[] = response.Messages.map((message) => {
-						let parsedBody;
-						try {
-							parsedBody = message.Body ? JSON.parse(message.Body) : {};
-						} catch {
-							parsedBody = message.Body;
-						}
+		const getDeduplicationKeys = (messages: Message[]) =>
+			messages.flatMap((message) => deduplicationKeys.get(message) ?? []);
+
+		// Only called once messages were emitted, or their execution succeeded
+		const rememberMessages = (messages: Message[]) => {
+			const expiresAt = Date.now() + deduplicationTtl * 1000;
+			for (const key of getDeduplicationKeys(messages)) {
+				seenMessages[key] = expiresAt;
+			}
+			pruneDeduplicationCache(seenMessages, deduplicationCacheSize);
+		};
+
+		const getMatchingItems = (message: Message, items: INodeExecutionData[]) => {
+			const attributes = flattenMessageAttributes(message.MessageAttributes ?? {});
+			return items.filter(({ json }) => {
+				const results = filterRules.map((rule) =>
+					matchesFilterRule(rule, attributes, json.parsedBody),
+				);
+				return filterMatch === 'any' ? results.some(Boolean) : results.every(Boolean);
+			});
+		};
+
+		// Keeps the items matching the filter rules. Messages without any matching item do not
+		// trigger an execution, and are returned to the queue, deleted or ignored.
+		const filterMessages = async (
+			queueUrl: string,
+			messages: Message[],
+			itemsByMessage: INodeExecutionData[][],
+		): Promise<{ messages: Message[]; itemsByMessage: INodeExecutionData[][] }> => {
+			const matchedMessages: Message[] = [];
+			const matchedItems: INodeExecutionData[][] = [];
+			const unmatchedMessages: Message[] = [];
+
+			messages.forEach((message, index) => {
+				const items = getMatchingItems(message, itemsByMessage[index]);
+
+				if (items.length > 0) {
+					matchedMessages.push(message);
+					matchedItems.push(items);
+				} else {
+					unmatchedMessages.push(message);
+				}
+			});
+
+			if (unmatchedMessages.length > 0) {
+				try {
+					if (unmatchedMessageAction === 'release') {
+						await changeMessageVisibility(sqsClient, queueUrl, unmatchedMessages, 0);
+					} else if (unmatchedMessageAction === 'delete') {
+						reportDeleteFailures(await acknowledgeMessages(queueUrl, unmatchedMessages));
+					}
+				} catch (error) {
+					this.logger.error(`Failed to handle filtered SQS messages: ${(error as Error).message}`);
+				}
+			}
 
-						return {
-							json: {
-								messageId: message.MessageId,
-								receiptHandle: message.ReceiptHandle,
-								body: message.Body,
-								parsedBody,
-								attributes: message.Attributes || {},
-								messageAttributes: message.MessageAttributes || {},
-								md5OfBody: message.MD5OfBody,
-								md5OfMessageAttributes: message.MD5OfMessageAttributes,
-							},
-						};
+			return { messages: matchedMessages, itemsByMessage: matchedItems };
+		};
+
+		// Sets the validationErrors of items failing Validate Body, and returns their messages
+		const flagInvalidItems = (
+			messages: Message[],
+			itemsByMessage: INodeExecutionData[][],
+		): Message[] => {
+			return messages.filter((message, index) => {
+				for (const { json } of itemsByMessage[index]) {
+					if (!validateBody!(json.parsedBody)) {
+						json.validationErrors = (validateBody!.errors ?? []).map((error) => ({
+							path: error.instancePath || '/',
+							keyword: error.keyword,
+							message: error.message,
+							params: error.params,
+						}));
+					}
+				}
+				return itemsByMessage[index].some(({ json }) => json.validationErrors);
+			});
+		};
+
+		// Flags items failing Validate Body. Unless they are routed to the Invalid output, their
+		// messages are moved to the dead-letter queue or returned to the queue, and not emitted.
+		const handleInvalidMessages = async (
+			queueUrl: string,
+			messages: Message[],
+			itemsByMessage: INodeExecutionData[][],
+		): Promise<{ messages: Message[]; itemsByMessage: INodeExecutionData[][] }> => {
+			const invalidMessages = flagInvalidItems(messages, itemsByMessage);
+			if (invalidOutput || invalidMessages.length === 0) {
+				return { messages, itemsByMessage };
+			}
+
+			try {
+				if (invalidMessageAction === 'moveToDeadLetterQueue') {
+					await moveToDeadLetterQueue(queueUrl, invalidMessages, (message) => {
+						const errors = itemsByMessage[messages.indexOf(message)].flatMap(
+							({ json }) => (json.validationErrors as IDataObject[] | undefined) ?? [],
+						);
+						return `Body failed schema validation: ${errors.map(({ path, message: errorMessage }) => `${path} ${errorMessage}`).join('; ')}`;
 					});
+				} else {
+					await changeMessageVisibility(sqsClient, queueUrl, invalidMessages, 0);
+				}
+			} catch (error) {
+				// The messages come back after the visibility timeout and are validated again
+				this.logger.error(`Failed to handle invalid SQS messages: ${(error as Error).message}`);
+			}
+
+			const validMessages = messages.filter((message) => !invalidMessages.includes(message));
+			return {
+				messages: validMessages,
+				itemsByMessage: validMessages.map((message) => itemsByMessage[messages.indexOf(message)]),
+			};
+		};
+
+		// Splits the items across the outputs of configuredOutputs: the first matching route or
+		// the fallback output, and the Invalid output
+		const getOutputData = (
+			messages: Message[],
+			itemsByMessage: INodeExecutionData[][],
+		): INodeExecutionData[][] => {
+			const routeOutputs: INodeExecutionData[][] = [...routingRules.map(() => []), []];
+			const invalidItems: INodeExecutionData[] = [];
+
+			messages.forEach((message, index) => {
+				const attributes =
+					routingRules.length > 0 ? flattenMessageAttributes(message.MessageAttributes ?? {}) : {};
+				for (const item of itemsByMessage[index]) {
+					if (invalidOutput && item.json.validationErrors) {
+						invalidItems.push(item);
+						continue;
+					}
+
+					const route = routingRules.findIndex((rule) =>
+						matchesFilterRule(rule, attributes, item.json.parsedBody),
+					);
+					routeOutputs[route === -1 ? routingRules.length : route].push(item);
+				}
+			});
+
+			return invalidOutput ? [...routeOutputs, invalidItems] : routeOutputs;
+		};
 
-					if (options.deleteMessages !== false) {
-						if (response.Messages.length === 1) {
-							const deleteCommand = new DeleteMessageCommand({
-								QueueUrl: queueUrl,
-								ReceiptHandle: response.Messages[0].ReceiptHandle,
-							});
-							await sqsClient.send(deleteCommand);
-						} else {
-							const deleteEntries = response.Messages.map((message, index) => ({
-								Id: `msg${index + 1}`,
-								ReceiptHandle: message.ReceiptHandle!,
-							}));
-
-							const deleteBatchCommand = new DeleteMessageBatchCommand({
-								QueueUrl: queueUrl,
-								Entries: deleteEntries,
-							});
-							await sqsClient.send(deleteBatchCommand);
+		// With onFinished, the output is emitted with a done-promise so the caller learns when
+		// the execution has finished
+		const emitOutput = (outputData: INodeExecutionData[][], onFinished?: () => void) => {
+			if (!onFinished) {
+				this.emit(outputData);
+				return;
+			}
+
+			const donePromise = this.helpers.createDeferredPromise<IRun>();
+			this.emit(outputData, undefined, donePromise);
+			void donePromise.promise.then(onFinished, onFinished);
+		};
+
+		// Keeps the messages hidden while their execution runs; returns the function stopping it
+		const keepHidden = (queueUrl: string, messages: Message[]) => {
+			const stopHeartbeat = startVisibilityHeartbeat(
+				sqsClient,
+				queueUrl,
+				messages,
+				visibilityTimeout,
+				maxVisibilityExtension,
+				(error) => this.logger.warn(`Failed to extend SQS message visibility: ${error.message}`),
+			);
+			heartbeats.add(stopHeartbeat);
+			return () => {
+				stopHeartbeat();
+				heartbeats.delete(stopHeartbeat);
+			};
+		};
+
+		const emitMessages = async (
+			queueUrl: string,
+			messages: Message[],
+			itemsByMessage: INodeExecutionData[][],
+			onFinished?: () => void,
+		) => {
+			const outputData = getOutputData(messages, itemsByMessage);
+
+			if (acknowledgeMode === 'immediately' && isFifo(queueUrl)) {
+				// SQS only holds back the rest of a message group while its messages are in flight,
+				// so they are kept hidden and deleted once the execution has finished, whatever its
+				// outcome
+				const stopHeartbeat = keepHidden(queueUrl, messages);
+				emitOutput(outputData, () => {
+					stopHeartbeat();
+					void acknowledgeMessages(queueUrl, messages)
+						.then(reportDeleteFailures)
+						.catch((error: Error) =>
+							this.logger.error(`Failed to acknowledge SQS messages: ${error.message}`),
+						)
+						.finally(onFinished);
+				});
+				rememberMessages(messages);
+			} else if (acknowledgeMode === 'immediately') {
+				const failures = await acknowledgeMessages(queueUrl, messages);
+				messages.forEach((message, index) => {
+					const failure = failures.find((entry) => entry.message === message);
+					for (const { json } of itemsByMessage[index]) {
+						json.deleteStatus = failure ? 'failed' : 'deleted';
+						if (failure) {
+							json.deleteError = { code: failure.code, message: failure.reason };
 						}
 					}
+				});
+				emitOutput(outputData, onFinished);
+				rememberMessages(messages);
+				reportDeleteFailures(failures);
+			} else if (acknowledgeMode === 'executionFinishesSuccessfully') {
+				// FIFO groups stay locked only while their messages are hidden
+				const stopHeartbeat =
+					options.extendVisibility || isFifo(queueUrl) ? keepHidden(queueUrl, messages) : undefined;
+
+				const keys = getDeduplicationKeys(messages);
+				keys.forEach((key) => inFlightKeys.add(key));
+				const donePromise = this.helpers.createDeferredPromise<IRun>();
+				this.emit(outputData, undefined, donePromise);
 
-					this.emit([returnMessages]);
+				void donePromise.promise
+					.then(async (run) => {
+						stopHeartbeat?.();
+						if (!run.data.resultData.error) {
+							rememberMessages(messages);
+							reportDeleteFailures(await acknowledgeMessages(queueUrl, messages));
+							return;
+						}
+
+						if (options.releaseOnFailure) {
+							await changeMessageVisibility(sqsClient, queueUrl, messages, 0);
+						}
+					})
+					.catch((error) => {
+						this.logger.error(`Failed to acknowledge SQS messages: ${(error as Error).message}`);
+					})
+					.finally(() => {
+						keys.forEach((key) => inFlightKeys.delete(key));
+						stopHeartbeat?.();
+						onFinished?.();
+					});
+			} else {
+				emitOutput(outputData, onFinished);
+				rememberMessages(messages);
+			}
+		};
+
+		// Returns messages of FIFO groups with a running execution, e.g. redelivered after their
+		// visibility timeout. They stay hidden rather than being returned to the queue, which
+		// would hand them out again right away, so the group waits for its execution. A
+		// redelivered message passes its new receipt handle on, as SQS only deletes a message
+		// with the handle of its latest receive.
+		const getBusyMessages = (queueUrl: string, received: Message[]): Message[] => {
+			const busyMessages = received.filter((message) =>
+				activeGroups.get(queueUrl)!.has(message.Attributes?.MessageGroupId ?? ''),
+			);
+			for (const message of busyMessages) {
+				const active = activeMessages.get(queueUrl)!.get(message.MessageId!);
+				if (active) {
+					active.ReceiptHandle = message.ReceiptHandle;
 				}
+			}
+			if (busyMessages.length > 0) {
+				this.logger.debug(
+					`Skipped ${busyMessages.length} SQS message(s) of FIFO groups with a running execution`,
+				);
+			}
+			return busyMessages;
+		};
+
+		const executeTrigger = async (
+			queueUrl: string,
+			receiveRequestAttemptId?: string,
+		): Promise<PollResult> => {
+			try {
+				const received = await receiveMessages(queueUrl, receiveRequestAttemptId);
+				const fifo = isFifo(queueUrl);
+				const busyMessages = fifo ? getBusyMessages(queueUrl, received) : [];
+				const available = received.filter((message) => !busyMessages.includes(message));
+				let messages = await loadS3Payloads(
+					maxReceiveCount > 0 ? await handlePoisonMessages(queueUrl, available) : available,
+				);
+				let itemsByMessage = await Promise.all(
+					messages.map(async (message) => await toExecutionData(queueUrl, message)),
+				);
+				if (deduplication !== 'none') {
+					({ messages, itemsByMessage } = await skipDuplicates(queueUrl, messages, itemsByMessage));
+				}
+				let released = 0;
+				if (filterRules.length > 0) {
+					const count = messages.length;
+					({ messages, itemsByMessage } = await filterMessages(queueUrl, messages, itemsByMessage));
+					if (unmatchedMessageAction === 'release') {
+						released += count - messages.length;
+					}
+				}
+				if (validateBody) {
+					const count = messages.length;
+					({ messages, itemsByMessage } = await handleInvalidMessages(
+						queueUrl,
+						messages,
+						itemsByMessage,
+					));
+					if (invalidMessageAction === 'release') {
+						released += count - messages.length;
+					}
+				}
+
+				if (messages.length > 0 && fifo) {
+					const groups = activeGroups.get(queueUrl)!;
+					const messagesById = activeMessages.get(queueUrl)!;
+					for (const [groupId, groupMessages] of groupFifoMessages(messages)) {
+						groups.add(groupId);
+						groupMessages.forEach((message) => messagesById.set(message.MessageId!, message));
+						await emitMessages(
+							queueUrl,
+							groupMessages,
+							groupMessages.map((message) => itemsByMessage[messages.indexOf(message)]),
+							() => {
+								groups.delete(groupId);
+								groupMessages.forEach((message) => messagesById.delete(message.MessageId!));
+							},
+						);
+					}
+				} else if (messages.length > 0) {
+					await emitMessages(queueUrl, messages, itemsByMessage);
+				}
+
+				return {
+					received: received.length,
+					handled: received.length - busyMessages.length - released,
+				};
 			} catch (error) {
-				throw new NodeApiError(this.getNode(), error as JsonObject);
+				if (!running) {
+					return { received: 0, handled: 0 };
+				}
+				throw error;
 			}
 		};
 
-		let running = true;
-		let intervalObj = setTimeout(run, 0);
+		// Transient errors are retried quietly a few times before they count as persistent. They
+		// can come from any request of a poll (receive, delete, visibility change or S3 fetch).
+		const isPersistentError = (error: unknown, failures: number): boolean => {
+			if (isTransientError(error) && failures <= MAX_TRANSIENT_RETRIES) {
+				this.logger.warn(
+					`SQS poll failed, retrying (attempt ${failures} of ${MAX_TRANSIENT_RETRIES}): ${(error as Error).message}`,
+				);
+				return false;
+			}
+			return true;
+		};
+
+		const reportError = (error: unknown) => {
+			this.emitError(new NodeApiError(this.getNode(), error as JsonObject));
+		};
+
+		const continuous = options.pollingMode === 'continuous';
+		const longPolling = ((options.waitTimeSeconds as number) ?? 0) > 0;
+		const timers = new Set<ReturnType<typeof setTimeout>>();
+
+		// Polls one queue at a time. A failed FIFO receive is retried with the same attempt ID,
+		// so SQS returns the messages of the failed attempt instead of leaving them hidden until
+		// the visibility timeout.
+		const createQueuePoll = () => {
+			const receiveRequestAttemptIds = new Map<string, string>();
 
-		async function run() {
-			await executeTrigger();
-			if (running) {
-				intervalObj = setTimeout(run, intervalValue);
+			return async (queueUrl: string): Promise<PollResult> => {
+				if (isFifo(queueUrl) && !receiveRequestAttemptIds.has(queueUrl)) {
+					receiveRequestAttemptIds.set(queueUrl, randomUUID());
+				}
+				try {
+					const result = await executeTrigger(queueUrl, receiveRequestAttemptIds.get(queueUrl));
+					receiveRequestAttemptIds.delete(queueUrl);
+					return result;
+				} catch (error) {
+					if (!isTransientError(error)) {
+						receiveRequestAttemptIds.delete(queueUrl);
+					}
+					throw error;
+				}
+			};
+		};
+
+		const startPoller = (poll: () => Promise<PollResult>) => {
+			let timer = setTimeout(run, 0);
+			timers.add(timer);
+			let failures = 0;
+			let reported = false;
+
+			async function run() {
+				timers.delete(timer);
+				let delay: number;
+				try {
+					const { received, handled } = await poll();
+					failures = 0;
+					reported = false;
+					// In continuous mode keep draining while messages are handled; an empty long poll
+					// has already waited, so only short polls fall back to the interval. Messages
+					// returned to the queue would be received again right away, so they wait for it.
+					const pollAgain = continuous && (handled > 0 || (longPolling && received === 0));
+					delay = pollAgain ? 0 : intervalValue;
+				} catch (error) {
+					failures++;
+					// Persistent errors are reported once per failure streak; polling goes on
+					// with backoff until the trigger is closed.
+					if (isPersistentError(error, failures) && !reported) {
+						reportError(error);
+						reported = true;
+					}
+					delay = getBackoffDelay(failures, BACKOFF_BASE_DELAY, BACKOFF_MAX_DELAY);
+				}
+
+				if (running) {
+					timer = setTimeout(run, delay);
+					timers.add(timer);
+				}
+			}
+		};
+
+		// "Test step" in the editor: a single receive, emitted without the poll loop. The messages
+		// are returned to the queue unless Delete Messages When Testing is set.
+		const manualTriggerFunction = async () => {
+			let queueUrl = queueUrls[0];
+			let messages: Message[] = [];
+			for (queueUrl of queueUrls) {
+				messages = await receive({ ...receiveParams, QueueUrl: queueUrl });
+				if (messages.length > 0) {
+					break;
+				}
+			}
+
+			if (messages.length === 0) {
+				throw new NodeOperationError(this.getNode(), 'No messages found in the queue', {
+					description:
+						'Send a message to the queue and test the step again. Received test messages are returned to the queue and not deleted.',
+				});
 			}
-		}
+
+			try {
+				messages = await loadS3Payloads(messages);
+				const itemsByMessage = await Promise.all(
+					messages.map(async (message) => await toExecutionData(queueUrl, message)),
+				);
+				if (filterRules.length > 0) {
+					messages.forEach((message, index) => {
+						itemsByMessage[index] = getMatchingItems(message, itemsByMessage[index]);
+					});
+					if (itemsByMessage.every((items) => items.length === 0)) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'No received messages match the Filter Rules',
+						);
+					}
+				}
+				if (validateBody) {
+					flagInvalidItems(messages, itemsByMessage);
+				}
+
+				this.emit(getOutputData(messages, itemsByMessage));
+			} finally {
+				if (options.deleteOnManualTest) {
+					reportDeleteFailures(await acknowledgeMessages(queueUrl, messages));
+				} else {
+					await changeMessageVisibility(sqsClient, queueUrl, messages, 0);
+				}
+			}
+		};
+
+		const pollingStrategy =
+			queueUrls.length > 1 ? ((options.pollingStrategy as string) ?? 'parallel') : 'parallel';
+		const priorities = ((options.queuePriorities as IDataObject)?.queuePriority ?? []) as Array<{
+			queue: string;
+			priority: number;
+		}>;
+		const getPriority = (queueUrl: string) =>
+			priorities.find(({ queue }) => queue === queueUrl || queue === getQueueName(queueUrl))
+				?.priority ?? 1;
 
 		async function closeFunction() {
 			running = false;
-			clearTimeout(intervalObj);
+			abortController.abort();
+			timers.forEach((timer) => clearTimeout(timer));
+			timers.clear();
+			heartbeats.forEach((stopHeartbeat) => stopHeartbeat());
+			heartbeats.clear();
 			sqsClient.destroy();
+			s3Client?.destroy();
+		}
+
+		if (this.getMode() === 'manual') {
+			return {
+				closeFunction,
+				manualTriggerFunction,
+			};
+		}
+
+		for (let i = 0; i < concurrency; i++) {
+			if (pollingStrategy === 'priority') {
+				// Every poll starts again at the highest priority, so lower priorities are only
+				// polled while all higher ones are empty
+				const tiers = [...new Set(queueUrls.map(getPriority))]
+					.sort((first, second) => second - first)
+					.map((priority) => queueUrls.filter((queueUrl) => getPriority(queueUrl) === priority));
+				const poll = createQueuePoll();
+				startPoller(async () => {
+					const result = { received: 0, handled: 0 };
+					for (const tier of tiers) {
+						for (const queueUrl of tier) {
+							const { received, handled } = await poll(queueUrl);
+							result.received += received;
+							result.handled += handled;
+						}
+						if (result.handled > 0) {
+							return result;
+						}
+					}
+					return result;
+				});
+			} else if (pollingStrategy === 'weighted') {
+				const nextQueueUrl = createWeightedRotation(
+					queueUrls.map((queueUrl) => ({ value: queueUrl, weight: getPriority(queueUrl) })),
+				);
+				const poll = createQueuePoll();
+				startPoller(async () => await poll(nextQueueUrl()));
+			} else {
+				for (const queueUrl of queueUrls) {
+					const poll = createQueuePoll();
+					startPoller(async () => await poll(queueUrl));
+				}
+			}
 		}
 
 		return {
@@ -0,0 +1,990 @@
+import {
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IExecuteFunctions,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
+	ITriggerFunctions,
+	JsonObject,
+	NodeApiError,
+} from 'n8n-workflow';
+
+import {
+	SQSClient,
+	SQSClientConfig,
+	ListQueuesCommand,
+	GetQueueUrlCommand,
+	DeleteMessageCommand,
+	DeleteMessageBatchCommand,
+	DeleteMessageBatchCommandOutput,
+	ChangeMessageVisibilityCommand,
+	ChangeMessageVisibilityBatchCommand,
+	SendMessageCommand,
+	SendMessageCommandInput,
+	Message,
+	MessageAttributeValue,
+} from '@aws-sdk/client-sqs';
+import {
+	S3Client,
+	S3ClientConfig,
+	GetObjectCommand,
+	DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { fromNodeProviderChain, fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import Ajv, { ValidateFunction } from 'ajv';
+import { gunzipSync, inflateRawSync, inflateSync } from 'zlib';
+
+const MAX_BATCH_ENTRIES = 10;
+const MAX_LIST_RESULTS = 1000;
+const MAX_DELETE_ATTEMPTS = 3;
+const MAX_MESSAGE_ATTRIBUTES = 10;
+const S3_POINTER_CLASS_NAMES = [
+	'software.amazon.payloadoffloading.PayloadS3Pointer',
+	'com.amazon.sqs.javamessaging.MessageS3Pointer',
+];
+export const FAILURE_REASON_ATTRIBUTE = 'FailureReason';
+const TRANSIENT_ERROR_NAMES = new Set([
+	'ThrottlingException',
+	'Throttling',
+	'RequestThrottled',
+	'RequestThrottledException',
+	'TooManyRequestsException',
+	'ServiceUnavailable',
+	'InternalError',
+	'InternalFailure',
+	'RequestTimeout',
+	'RequestTimeoutException',
+	'TimeoutError',
+	'NetworkingError',
+	'ExpiredToken',
+	'ExpiredTokenException',
+	'CredentialsProviderError',
+]);
+const TRANSIENT_ERROR_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+]);
+const QUEUE_ARN_REGEX =
+	/^arn:(aws[a-zA-Z-]*):sqs:([a-z0-9-]+):(\d{12}):([a-zA-Z0-9_-]{1,80}(?:\.fifo)?)$/;
+
+export interface AwsAuthentication {
+	credentialMode: string;
+	credentials?: ICredentialDataDecryptedObject;
+	assumeRoleSource?: string;
+	roleArn?: string;
+	externalId?: string;
+	roleSessionName?: string;
+	region?: string;
+}
+
+export interface S3Pointer {
+	bucket: string;
+	key: string;
+}
+
+export interface FilterRule {
+	source: string;
+	key: string;
+	operation: string;
+	value?: string;
+	minimum?: number;
+	maximum?: number;
+}
+
+export interface DeleteFailure {
+	message: Message;
+	code?: string;
+	reason?: string;
+	senderFault?: boolean;
+}
+
+/**
+ * Collects the credential mode parameters of the node, and the AWS credential when the
+ * selected mode needs static keys.
+ */
+export async function getAwsAuthentication(
+	this: IExecuteFunctions | ILoadOptionsFunctions | ITriggerFunctions,
+	getParameter: (parameterName: string) => unknown,
+): Promise<AwsAuthentication> {
+	const authentication: AwsAuthentication = {
+		credentialMode: (getParameter('credentialMode') as string) || 'staticKeys',
+	};
+
+	if (authentication.credentialMode !== 'staticKeys') {
+		authentication.region = (getParameter('region') as string) || undefined;
+	}
+
+	if (authentication.credentialMode === 'assumeRole') {
+		authentication.assumeRoleSource = (getParameter('assumeRoleSource') as string) || 'staticKeys';
+		authentication.roleArn = getParameter('roleArn') as string;
+		authentication.externalId = (getParameter('externalId') as string) || undefined;
+		authentication.roleSessionName = (getParameter('roleSessionName') as string) || 'n8n-aws-sqs';
+	}
+
+	if (
+		authentication.credentialMode === 'staticKeys' ||
+		(authentication.credentialMode === 'assumeRole' &&
+			authentication.assumeRoleSource === 'staticKeys')
+	) {
+		authentication.credentials = (await this.getCredentials(
+			'aws',
+		)) as ICredentialDataDecryptedObject;
+	}
+
+	return authentication;
+}
+
+/**
+ * Resolves the SQS endpoint: the node option takes precedence over the custom
+ * SQS endpoint configured on the AWS credential.
+ */
+export function getSqsEndpoint(
+	authentication: AwsAuthentication,
+	options: IDataObject,
+): string | undefined {
+	if (options.endpoint) {
+		return options.endpoint as string;
+	}
+
+	const { credentials } = authentication;
+	if (credentials?.customEndpoints && credentials.sqsEndpoint) {
+		return credentials.sqsEndpoint as string;
+	}
+
+	return undefined;
+}
+
+function getStaticCredentials(credentials: ICredentialDataDecryptedObject) {
+	return {
+		accessKeyId: credentials.accessKeyId as string,
+		secretAccessKey: credentials.secretAccessKey as string,
+		sessionToken: credentials.sessionToken as string,
+	};
+}
+
+function getClientConfig(authentication: AwsAuthentication): {
+	region?: string;
+	credentials: SQSClientConfig['credentials'];
+} {
+	const { credentialMode, credentials } = authentication;
+	const region = authentication.region || (credentials?.region as string | undefined);
+
+	let clientCredentials: SQSClientConfig['credentials'];
+	if (credentialMode === 'defaultProviderChain') {
+		clientCredentials = fromNodeProviderChain();
+	} else if (credentialMode === 'assumeRole') {
+		clientCredentials = fromTemporaryCredentials({
+			masterCredentials:
+				authentication.assumeRoleSource === 'defaultProviderChain'
+					? fromNodeProviderChain()
+					: getStaticCredentials(credentials!),
+			params: {
+				RoleArn: authentication.roleArn,
+				RoleSessionName: authentication.roleSessionName,
+				ExternalId: authentication.externalId,
+			},
+			clientConfig: region ? { region } : undefined,
+		});
+	} else {
+		clientCredentials = getStaticCredentials(credentials!);
+	}
+
+	return region ? { region, credentials: clientCredentials } : { credentials: clientCredentials };
+}
+
+/**
+ * Creates the SQS client shared by all operations of a node. Default chain and assumed
+ * role credentials are providers, so the SDK refreshes them before they expire.
+ */
+export function createSqsClient(authentication: AwsAuthentication, endpoint?: string): SQSClient {
+	const config: SQSClientConfig = getClientConfig(authentication);
+	if (endpoint) {
+		config.endpoint = endpoint;
+	}
+
+	return new SQSClient(config);
+}
+
+/**
+ * Creates the S3 client used for payloads offloaded by the SQS Extended Client, with the
+ * same credentials as the SQS client. Custom endpoints use path-style bucket addressing.
+ */
+export function createS3Client(authentication: AwsAuthentication, endpoint?: string): S3Client {
+	const config: S3ClientConfig = getClientConfig(authentication);
+	if (endpoint) {
+		config.endpoint = endpoint;
+		config.forcePathStyle = true;
+	}
+
+	return new S3Client(config);
+}
+
+/**
+ * Resolves the S3 endpoint: the node option takes precedence over the custom S3 endpoint
+ * configured on the AWS credential.
+ */
+export function getS3Endpoint(
+	authentication: AwsAuthentication,
+	options: IDataObject,
+): string | undefined {
+	if (options.s3Endpoint) {
+		return options.s3Endpoint as string;
+	}
+
+	const { credentials } = authentication;
+	if (credentials?.customEndpoints && credentials.s3Endpoint) {
+		return credentials.s3Endpoint as string;
+	}
+
+	return undefined;
+}
+
+/**
+ * Rewrites a queue URL to path style on the given endpoint, e.g.
+ * `http://sqs.us-east-1.localhost.localstack.cloud:4566/000000000000/queue` becomes
+ * `http://localhost:4566/000000000000/queue` for the endpoint `http://localhost:4566`.
+ */
+export function toEndpointQueueUrl(queueUrl: string, endpoint: string): string {
+	try {
+		const { pathname } = new URL(queueUrl);
+		return `${endpoint.replace(/\/+$/, '')}${pathname}`;
+	} catch {
+		return queueUrl;
+	}
+}
+
+export function getQueueName(queueUrl: string): string {
+	const urlParts = queueUrl.split('/');
+	return urlParts[urlParts.length - 1];
+}
+
+export function isFifoQueue(queueUrl: string): boolean {
+	return queueUrl.endsWith('.fifo');
+}
+
+function getQueueDescription(queueUrl: string): string {
+	const fifo = isFifoQueue(queueUrl);
+	if (/(dlq|dead-?letter)/i.test(getQueueName(queueUrl))) {
+		return fifo ? 'Dead-letter FIFO queue' : 'Dead-letter queue';
+	}
+	return fifo ? 'FIFO queue' : 'Standard queue';
+}
+
+async function createLoadOptionsClient(
+	this: ILoadOptionsFunctions,
+): Promise<{ sqsClient: SQSClient; endpoint?: string }> {
+	const authentication = await getAwsAuthentication.call(this, (parameterName) =>
+		this.getCurrentNodeParameter(parameterName),
+	);
+	const options = (this.getCurrentNodeParameter('options') ?? {}) as IDataObject;
+	const endpoint = getSqsEndpoint(authentication, options);
+	return { sqsClient: createSqsClient(authentication, endpoint), endpoint };
+}
+
+async function listQueueUrls(
+	sqsClient: SQSClient,
+	queueNamePrefix?: string,
+	nextToken?: string,
+): Promise<{ queueUrls: string[]; nextToken?: string }> {
+	const response = await sqsClient.send(
+		new ListQueuesCommand({
+			QueueNamePrefix: queueNamePrefix || undefined,
+			MaxResults: MAX_LIST_RESULTS,
+			NextToken: nextToken,
+		}),
+	);
+
+	return { queueUrls: response.QueueUrls ?? [], nextToken: response.NextToken };
+}
+
+/**
+ * Lists all queues of the account and region, optionally with a name prefix, following the
+ * pagination of ListQueues.
+ */
+export async function listAllQueueUrls(
+	sqsClient: SQSClient,
+	queueNamePrefix?: string,
+): Promise<string[]> {
+	const queueUrls: string[] = [];
+	let nextToken: string | undefined;
+	do {
+		const page = await listQueueUrls(sqsClient, queueNamePrefix, nextToken);
+		queueUrls.push(...page.queueUrls);
+		nextToken = page.nextToken;
+	} while (nextToken);
+
+	return queueUrls;
+}
+
+export async function getQueues(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const { sqsClient, endpoint } = await createLoadOptionsClient.call(this);
+
+	try {
+		const queueUrls = await listAllQueueUrls(sqsClient);
+
+		return queueUrls.map((queueUrl: string) => ({
+			name: getQueueName(queueUrl),
+			value: endpoint ? toEndpointQueueUrl(queueUrl, endpoint) : queueUrl,
+			description: getQueueDescription(queueUrl),
+		}));
+	} catch (error) {
+		throw new NodeApiError(this.getNode(), error as JsonObject);
+	} finally {
+		sqsClient.destroy();
+	}
+}
+
+/**
+ * List search of the queue resource locator. The filter is used as queue name prefix.
+ */
+export async function searchQueues(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const { sqsClient, endpoint } = await createLoadOptionsClient.call(this);
+
+	try {
+		const page = await listQueueUrls(sqsClient, filter, paginationToken);
+
+		return {
+			results: page.queueUrls.map((queueUrl: string) => {
+				const value = endpoint ? toEndpointQueueUrl(queueUrl, endpoint) : queueUrl;
+				return {
+					name: `${getQueueName(queueUrl)} (${getQueueDescription(queueUrl)})`,
+					value,
+					url: value,
+				};
+			}),
+			paginationToken: page.nextToken,
+		};
+	} catch (error) {
+		throw new NodeApiError(this.getNode(), error as JsonObject);
+	} finally {
+		sqsClient.destroy();
+	}
+}
+
+/**
+ * Resolves the value of the queue resource locator to a queue URL. URLs are used as they
+ * are, ARNs are converted to the queue URL of their region and account, and plain names
+ * are looked up with GetQueueUrl.
+ */
+export async function resolveQueueUrl(
+	sqsClient: SQSClient,
+	queue: string,
+	endpoint?: string,
+): Promise<string> {
+	if (/^https?:\/\//i.test(queue)) {
+		return queue;
+	}
+
+	const arn = queue.match(QUEUE_ARN_REGEX);
+	if (arn) {
+		const [, partition, region, accountId, queueName] = arn;
+		if (endpoint) {
+			return `${endpoint.replace(/\/+$/, '')}/${accountId}/${queueName}`;
+		}
+		const domain = partition === 'aws-cn' ? 'amazonaws.com.cn' : 'amazonaws.com';
+		return `https://sqs.${region}.${domain}/${accountId}/${queueName}`;
+	}
+
+	const response = await sqsClient.send(new GetQueueUrlCommand({ QueueName: queue }));
+	return endpoint ? toEndpointQueueUrl(response.QueueUrl!, endpoint) : response.QueueUrl!;
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+	const chunks: T[][] = [];
+	for (let i = 0; i < values.length; i += size) {
+		chunks.push(values.slice(i, i + size));
+	}
+	return chunks;
+}
+
+/**
+ * Deletes the messages, in batches when there is more than one. Messages that fail for
+ * reasons on the SQS side are retried; the messages that still fail are returned. Errors
+ * without an SQS response, such as network errors, are thrown while nothing is deleted yet;
+ * after that they are returned as failures of the request's messages, so the caller still
+ * learns which messages are gone.
+ */
+export async function deleteMessages(
+	sqsClient: SQSClient,
+	queueUrl: string,
+	messages: Message[],
+): Promise<DeleteFailure[]> {
+	if (messages.length === 1) {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				await sqsClient.send(
+					new DeleteMessageCommand({
+						QueueUrl: queueUrl,
+						ReceiptHandle: messages[0].ReceiptHandle,
+					}),
+				);
+				return [];
+			} catch (error) {
+				const { name, message, $fault } = error as {
+					name?: string;
+					message?: string;
+					$fault?: 'client' | 'server';
+				};
+				if ($fault === undefined) {
+					throw error;
+				}
+				// Like failed batch entries, sender faults are not retried
+				const senderFault = $fault === 'client';
+				if (senderFault || attempt >= MAX_DELETE_ATTEMPTS) {
+					return [{ message: messages[0], code: name, reason: message, senderFault }];
+				}
+			}
+		}
+	}
+
+	const failures: DeleteFailure[] = [];
+	let deleted = false;
+	for (const batch of chunk(messages, MAX_BATCH_ENTRIES)) {
+		let pending = batch;
+		for (let attempt = 1; pending.length > 0; attempt++) {
+			let response: DeleteMessageBatchCommandOutput;
+			try {
+				response = await sqsClient.send(
+					new DeleteMessageBatchCommand({
+						QueueUrl: queueUrl,
+						Entries: pending.map((message, index) => ({
+							Id: `msg${index + 1}`,
+							ReceiptHandle: message.ReceiptHandle!,
+						})),
+					}),
+				);
+			} catch (error) {
+				if (!deleted) {
+					throw error;
+				}
+				const { name, message } = error as Error;
+				failures.push(
+					...pending.map((failed) => ({
+						message: failed,
+						code: name,
+						reason: message,
+						senderFault: false,
+					})),
+				);
+				break;
+			}
+			deleted ||= (response.Failed?.length ?? 0) < pending.length;
+
+			const retry: Message[] = [];
+			for (const failed of response.Failed ?? []) {
+				const message = pending[Number(failed.Id!.slice(3)) - 1];
+				// Sender faults such as an expired receipt handle fail the same way on every attempt
+				if (!failed.SenderFault && attempt < MAX_DELETE_ATTEMPTS) {
+					retry.push(message);
+				} else {
+					failures.push({
+						message,
+						code: failed.Code,
+						reason: failed.Message,
+						senderFault: failed.SenderFault,
+					});
+				}
+			}
+			pending = retry;
+		}
+	}
+
+	return failures;
+}
+
+export async function changeMessageVisibility(
+	sqsClient: SQSClient,
+	queueUrl: string,
+	messages: Message[],
+	visibilityTimeout: number,
+): Promise<void> {
+	if (messages.length === 1) {
+		await sqsClient.send(
+			new ChangeMessageVisibilityCommand({
+				QueueUrl: queueUrl,
+				ReceiptHandle: messages[0].ReceiptHandle,
+				VisibilityTimeout: visibilityTimeout,
+			}),
+		);
+		return;
+	}
+
+	for (const batch of chunk(messages, MAX_BATCH_ENTRIES)) {
+		await sqsClient.send(
+			new ChangeMessageVisibilityBatchCommand({
+				QueueUrl: queueUrl,
+				Entries: batch.map((message, index) => ({
+					Id: `msg${index + 1}`,
+					ReceiptHandle: message.ReceiptHandle!,
+					VisibilityTimeout: visibilityTimeout,
+				})),
+			}),
+		);
+	}
+}
+
+/**
+ * Sends a copy of a message to a dead-letter queue, with its message attributes and the
+ * reason in the `FailureReason` attribute. SQS allows 10 message attributes, so the last one
+ * gives way to the reason when the message has them all. The caller deletes the original
+ * afterwards.
+ */
+export async function sendToDeadLetterQueue(
+	sqsClient: SQSClient,
+	deadLetterQueueUrl: string,
+	message: Message,
+	reason: string,
+): Promise<void> {
+	const messageAttributes: Record<string, MessageAttributeValue> = {};
+	const attributes = Object.entries(message.MessageAttributes ?? {}).filter(
+		([name]) => name !== FAILURE_REASON_ATTRIBUTE,
+	);
+	for (const [name, { DataType, StringValue, BinaryValue }] of attributes.slice(
+		0,
+		MAX_MESSAGE_ATTRIBUTES - 1,
+	)) {
+		messageAttributes[name] = { DataType, StringValue, BinaryValue };
+	}
+	messageAttributes[FAILURE_REASON_ATTRIBUTE] = { DataType: 'String', StringValue: reason };
+
+	const input: SendMessageCommandInput = {
+		QueueUrl: deadLetterQueueUrl,
+		MessageBody: message.Body ?? '',
+		MessageAttributes: messageAttributes,
+	};
+
+	if (isFifoQueue(deadLetterQueueUrl)) {
+		input.MessageGroupId = message.Attributes?.MessageGroupId ?? message.MessageId;
+		input.MessageDeduplicationId = message.MessageId;
+	}
+
+	await sqsClient.send(new SendMessageCommand(input));
+}
+
+function compareSequenceNumbers(a: Message, b: Message): number {
+	// Sequence numbers are large integers in strings, longer ones are always greater
+	const first = a.Attributes?.SequenceNumber ?? '';
+	const second = b.Attributes?.SequenceNumber ?? '';
+	if (first.length !== second.length) {
+		return first.length - second.length;
+	}
+	return first < second ? -1 : first > second ? 1 : 0;
+}
+
+/**
+ * Groups messages of a FIFO queue by `MessageGroupId`, each group in `SequenceNumber` order.
+ * Groups keep the order in which they first appear in the received messages.
+ */
+export function groupFifoMessages(messages: Message[]): Map<string, Message[]> {
+	const groups = new Map<string, Message[]>();
+	for (const message of messages) {
+		const groupId = message.Attributes?.MessageGroupId ?? '';
+		groups.set(groupId, [...(groups.get(groupId) ?? []), message]);
+	}
+	for (const groupMessages of groups.values()) {
+		groupMessages.sort(compareSequenceNumbers);
+	}
+	return groups;
+}
+
+/**
+ * Keeps messages invisible while they are being processed by extending their visibility
+ * timeout every half timeout, until `maxTotal` seconds have passed since the start.
+ * Returns a function that stops the heartbeat.
+ */
+export function startVisibilityHeartbeat(
+	sqsClient: SQSClient,
+	queueUrl: string,
+	messages: Message[],
+	visibilityTimeout: number,
+	maxTotal: number,
+	onError: (error: Error) => void,
+): () => void {
+	const startedAt = Date.now();
+	const timer = setInterval(
+		() => {
+			const elapsed = (Date.now() - startedAt) / 1000;
+			const extension = Math.ceil(Math.min(visibilityTimeout, maxTotal - elapsed));
+			if (extension <= 0) {
+				clearInterval(timer);
+				return;
+			}
+
+			changeMessageVisibility(sqsClient, queueUrl, messages, extension).catch(onError);
+		},
+		Math.max(1, Math.floor(visibilityTimeout / 2)) * 1000,
+	);
+
+	return () => clearInterval(timer);
+}
+
+/**
+ * Returns a function picking the next value of a smooth weighted round-robin: over a full
+ * rotation every value is picked as often as its weight, spread as evenly as possible.
+ */
+export function createWeightedRotation<T>(entries: Array<{ value: T; weight: number }>): () => T {
+	const totalWeight = entries.reduce((total, { weight }) => total + weight, 0);
+	const current = entries.map(() => 0);
+
+	return () => {
+		let selected = 0;
+		entries.forEach(({ weight }, index) => {
+			current[index] += weight;
+			if (current[index] > current[selected]) {
+				selected = index;
+			}
+		});
+		current[selected] -= totalWeight;
+		return entries[selected].value;
+	};
+}
+
+/**
+ * Whether an SQS error is likely to go away on its own: throttling, server side errors,
+ * network failures and expired credentials.
+ */
+export function isTransientError(error: unknown): boolean {
+	const { name, code, $retryable, $metadata } = error as {
+		name?: string;
+		code?: string;
+		$retryable?: unknown;
+		$metadata?: { httpStatusCode?: number };
+	};
+
+	if (
+		$retryable ||
+		TRANSIENT_ERROR_NAMES.has(name ?? '') ||
+		TRANSIENT_ERROR_CODES.has(code ?? '')
+	) {
+		return true;
+	}
+
+	const statusCode = $metadata?.httpStatusCode ?? 0;
+	return statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles with every attempt up to `maxDelay`,
+ * and a random half of it is added so concurrent pollers do not retry in lockstep.
+ */
+export function getBackoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+	const ceiling = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+	return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+function isObject(value: unknown): value is IDataObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function detectEnvelope(body: unknown): string | undefined {
+	if (!isObject(body)) {
+		return undefined;
+	}
+	if (body.Type === 'Notification' && typeof body.Message === 'string' && body.TopicArn) {
+		return 'sns';
+	}
+	if ('detail-type' in body && 'source' in body && 'detail' in body) {
+		return 'eventBridge';
+	}
+	const records = body.Records;
+	if (Array.isArray(records) && (records[0] as IDataObject | undefined)?.eventSource === 'aws:s3') {
+		return 's3';
+	}
+	return undefined;
+}
+
+/**
+ * Unwraps the payload of SNS notifications, EventBridge events and S3 event notifications
+ * delivered to a queue. Returns the payload (the `Records` for S3) and the envelope
+ * metadata, or the body as it is when it is not an envelope of the requested type.
+ */
+export function unwrapEnvelope(
+	body: unknown,
+	envelope: string,
+): { payload: unknown; metadata?: IDataObject } {
+	const type = detectEnvelope(body);
+	if (!type || (envelope !== 'auto' && envelope !== type)) {
+		return { payload: body };
+	}
+
+	const envelopeBody = body as IDataObject;
+
+	if (type === 'sns') {
+		let payload: unknown;
+		try {
+			payload = JSON.parse(envelopeBody.Message as string);
+		} catch {
+			payload = envelopeBody.Message;
+		}
+
+		return {
+			payload,
+			metadata: {
+				type,
+				messageId: envelopeBody.MessageId,
+				topicArn: envelopeBody.TopicArn,
+				subject: envelopeBody.Subject,
+				timestamp: envelopeBody.Timestamp,
+				messageAttributes: envelopeBody.MessageAttributes ?? {},
+			},
+		};
+	}
+
+	if (type === 'eventBridge') {
+		return {
+			payload: envelopeBody.detail,
+			metadata: {
+				type,
+				id: envelopeBody.id,
+				detailType: envelopeBody['detail-type'],
+				source: envelopeBody.source,
+				account: envelopeBody.account,
+				region: envelopeBody.region,
+				time: envelopeBody.time,
+				resources: envelopeBody.resources ?? [],
+			},
+		};
+	}
+
+	const records = envelopeBody.Records as IDataObject[];
+	return {
+		payload: records,
+		metadata: { type, recordCount: records.length },
+	};
+}
+
+/**
+ * Returns the S3 location of a payload offloaded by the SQS Extended Client, whose body is
+ * `["software.amazon.payloadoffloading.PayloadS3Pointer", {"s3BucketName", "s3Key"}]`.
+ */
+export function getS3Pointer(body?: string): S3Pointer | undefined {
+	if (!body?.startsWith('[')) {
+		return undefined;
+	}
+
+	let pointer: unknown;
+	try {
+		pointer = JSON.parse(body);
+	} catch {
+		return undefined;
+	}
+
+	if (
+		!Array.isArray(pointer) ||
+		pointer.length !== 2 ||
+		!S3_POINTER_CLASS_NAMES.includes(pointer[0] as string) ||
+		!isObject(pointer[1]) ||
+		typeof pointer[1].s3BucketName !== 'string' ||
+		typeof pointer[1].s3Key !== 'string'
+	) {
+		return undefined;
+	}
+
+	return { bucket: pointer[1].s3BucketName, key: pointer[1].s3Key };
+}
+
+export async function getS3Payload(s3Client: S3Client, pointer: S3Pointer): Promise<string> {
+	const response = await s3Client.send(
+		new GetObjectCommand({ Bucket: pointer.bucket, Key: pointer.key }),
+	);
+	return (await response.Body?.transformToString('utf-8')) ?? '';
+}
+
+export async function deleteS3Payload(s3Client: S3Client, pointer: S3Pointer): Promise<void> {
+	await s3Client.send(new DeleteObjectCommand({ Bucket: pointer.bucket, Key: pointer.key }));
+}
+
+function detectCompression(content: Buffer): string {
+	if (content.length >= 2 && content[0] === 0x1f && content[1] === 0x8b) {
+		return 'gzip';
+	}
+	// zlib header: deflate method and a check value that makes the first two bytes a multiple of 31
+	if (content.length >= 2 && (content[0] & 0x0f) === 8 && content.readUInt16BE(0) % 31 === 0) {
+		return 'deflate';
+	}
+	return 'none';
+}
+
+function decompress(content: Buffer, compression: string): Buffer {
+	if (compression === 'gzip') {
+		return gunzipSync(content);
+	}
+	if (compression === 'deflate') {
+		try {
+			return inflateSync(content);
+		} catch {
+			return inflateRawSync(content);
+		}
+	}
+	return content;
+}
+
+/**
+ * Decodes a message body: base64 first, then decompression. Deflate accepts zlib-wrapped
+ * and raw streams; auto-detection recognizes gzip and zlib headers only, and keeps the
+ * content as it is when it does not decompress (plain text like `80` passes the zlib check).
+ */
+export function decodeBody(body: string, encoding: string, compression: string): Buffer {
+	const content = Buffer.from(body, encoding === 'base64' ? 'base64' : 'utf-8');
+
+	if (compression !== 'auto') {
+		return decompress(content, compression);
+	}
+	try {
+		return decompress(content, detectCompression(content));
+	} catch {
+		return content;
+	}
+}
+
+function decodeBinaryAttribute(value: Uint8Array): string {
+	const buffer = Buffer.from(value);
+	const text = buffer.toString('utf-8');
+	// Text that does not survive the round trip is not valid UTF-8, so keep it as base64
+	return Buffer.from(text, 'utf-8').equals(buffer) ? text : buffer.toString('base64');
+}
+
+/**
+ * Flattens message attributes into a plain object of values: `Number` types become
+ * numbers, `Binary` types are decoded to UTF-8 text (or base64 when not valid UTF-8).
+ */
+export function flattenMessageAttributes(
+	attributes: Record<string, MessageAttributeValue>,
+): IDataObject {
+	const flattened: IDataObject = {};
+	for (const [name, { DataType, StringValue, BinaryValue }] of Object.entries(attributes)) {
+		const type = DataType?.split('.')[0];
+		if (type === 'Number') {
+			flattened[name] = Number(StringValue);
+		} else if (type === 'Binary') {
+			flattened[name] = BinaryValue ? decodeBinaryAttribute(BinaryValue) : undefined;
+		} else {
+			flattened[name] = StringValue;
+		}
+	}
+	return flattened;
+}
+
+/**
+ * Compiles the JSON Schema of the Validate Body option. Unknown keywords and formats are
+ * ignored rather than rejected, as schemas are often shared with other tools.
+ */
+export function compileBodySchema(schema: unknown): ValidateFunction {
+	const ajv = new Ajv({ allErrors: true, strict: false });
+	return ajv.compile(typeof schema === 'string' ? JSON.parse(schema) : (schema as object));
+}
+
+function getPathValue(value: unknown, path: string): unknown {
+	const keys = path
+		.replace(/\[(\d+)\]/g, '.$1')
+		.split('.')
+		.filter(Boolean);
+	let current = value;
+	for (const key of keys) {
+		if (typeof current !== 'object' || current === null) {
+			return undefined;
+		}
+		current = (current as IDataObject)[key];
+	}
+	return current;
+}
+
+/**
+ * Returns the key messages are deduplicated by: the message ID, a message attribute or a
+ * dot path of the parsed body. Messages without a value for the key are never duplicates.
+ */
+export function getDeduplicationKey(
+	message: Message,
+	source: string,
+	key: string,
+	parsedBody: unknown,
+): string | undefined {
+	let value: unknown;
+	if (source === 'messageId') {
+		value = message.MessageId;
+	} else if (source === 'messageAttribute') {
+		value = flattenMessageAttributes(message.MessageAttributes ?? {})[key];
+	} else {
+		value = getPathValue(parsedBody, key);
+	}
+
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Removes expired entries from a deduplication cache, which maps keys to the time they
+ * expire at, then the entries closest to expiry until at most `maxSize` are left.
+ */
+export function pruneDeduplicationCache(
+	cache: Record<string, number>,
+	maxSize: number,
+	now = Date.now(),
+): void {
+	for (const [key, expiresAt] of Object.entries(cache)) {
+		if (expiresAt <= now) {
+			delete cache[key];
+		}
+	}
+
+	const entries = Object.entries(cache);
+	if (entries.length > maxSize) {
+		entries
+			.sort(([, first], [, second]) => first - second)
+			.slice(0, entries.length - maxSize)
+			.forEach(([key]) => delete cache[key]);
+	}
+}
+
+/**
+ * Checks a filter rule against the flattened message attributes or a dot path of the
+ * parsed body, e.g. `detail.order.items[0].sku`.
+ */
+export function matchesFilterRule(
+	rule: FilterRule,
+	messageAttributes: IDataObject,
+	parsedBody: unknown,
+): boolean {
+	const actual =
+		rule.source === 'body' ? getPathValue(parsedBody, rule.key) : messageAttributes[rule.key];
+
+	switch (rule.operation) {
+		case 'exists':
+			return actual !== undefined && actual !== null;
+		case 'equals':
+			return actual !== undefined && actual !== null && String(actual) === (rule.value ?? '');
+		case 'in':
+			return (
+				actual !== undefined &&
+				actual !== null &&
+				(rule.value ?? '')
+					.split(',')
+					.map((value) => value.trim())
+					.includes(String(actual))
+			);
+		case 'prefix':
+			return typeof actual === 'string' && actual.startsWith(rule.value ?? '');
+		case 'between': {
+			const number = typeof actual === 'string' && actual.trim() !== '' ? Number(actual) : actual;
+			return (
+				typeof number === 'number' &&
+				!isNaN(number) &&
+				number >= (rule.minimum ?? -Infinity) &&
+				number <= (rule.maximum ?? Infinity)
+			);
+		}
+		default:
+			return false;
+	}
+}
@@ -0,0 +1,67 @@
+import { INodeProperties } from 'n8n-workflow';
+
+export const queueProperty: INodeProperties = {
+	displayName: 'Queue',
+	name: 'queue',
+	type: 'resourceLocator',
+	default: { mode: 'list', value: '' },
+	required: true,
+	description: 'The queue to use',
+	modes: [
+		{
+			displayName: 'From List',
+			name: 'list',
+			type: 'list',
+			placeholder: 'Select a queue...',
+			typeOptions: {
+				searchListMethod: 'searchQueues',
+				searchable: true,
+			},
+		},
+		{
+			displayName: 'By URL',
+			name: 'url',
+			type: 'string',
+			placeholder: 'https://sqs.us-east-1.amazonaws.com/123456789012/my-queue',
+			validation: [
+				{
+					type: 'regex',
+					properties: {
+						regex: '^https?://\\S+/[a-zA-Z0-9_-]{1,80}(\\.fifo)?$',
+						errorMessage: 'Not a valid SQS queue URL',
+					},
+				},
+			],
+		},
+		{
+			displayName: 'By Name',
+			name: 'name',
+			type: 'string',
+			placeholder: 'my-queue',
+			validation: [
+				{
+					type: 'regex',
+					properties: {
+						regex: '^[a-zA-Z0-9_-]{1,80}(\\.fifo)?$',
+						errorMessage: 'Not a valid SQS queue name',
+					},
+				},
+			],
+		},
+		{
+			displayName: 'By ARN',
+			name: 'arn',
+			type: 'string',
+			placeholder: 'arn:aws:sqs:us-east-1:123456789012:my-queue',
+			validation: [
+				{
+					type: 'regex',
+					properties: {
+						regex: '^arn:aws[a-zA-Z-]*:sqs:[a-z0-9-]+:\\d{12}:[a-zA-Z0-9_-]{1,80}(\\.fifo)?$',
+						errorMessage: 'Not a valid SQS queue ARN',
+					},
+				},
+			],
+		},
+	],
+};
@@ -0,0 +1,398 @@
+import { AwsSqs } from '../../nodes/Aws/SQS/AwsSqs.node';
+import { IExecuteFunctions, NodeApiError, NodeOperationError } from 'n8n-workflow';
+import {
+	SQSClient,
+	SendMessageCommand,
+	SendMessageBatchCommand,
+	GetQueueUrlCommand,
+} from '@aws-sdk/client-sqs';
+
+jest.mock('@aws-sdk/client-sqs');
+
+const MockedSQSClient = SQSClient as jest.MockedClass<typeof SQSClient>;
+const MockedSendMessageCommand = SendMessageCommand as jest.MockedClass<typeof SendMessageCommand>;
+const MockedSendMessageBatchCommand = SendMessageBatchCommand as jest.MockedClass<
+	typeof SendMessageBatchCommand
+>;
+
+const queueUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/test-queue';
+const fifoQueueUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/test-queue.fifo';
+
+describe('AwsSqs', () => {
+	let awsSqs: AwsSqs;
+	let mockSqsClient: jest.Mocked<SQSClient>;
+	let mockExecuteFunctions: jest.Mocked<IExecuteFunctions>;
+
+	const setParameters = (parameters: Record<string, unknown>) => {
+		mockExecuteFunctions.getNodeParameter.mockImplementation(
+			(name: string, _itemIndex: number, fallbackValue?: unknown) =>
+				(parameters[name] ?? fallbackValue) as any,
+		);
+	};
+
+	beforeEach(() => {
+		awsSqs = new AwsSqs();
+		mockSqsClient = {
+			send: jest.fn().mockResolvedValue({}),
+			destroy: jest.fn(),
+		} as any;
+
+		MockedSQSClient.mockImplementation(() => mockSqsClient);
+
+		mockExecuteFunctions = {
+			getInputData: jest.fn().mockReturnValue([{ json: { id: 1, name: 'test' } }]),
+			getNodeParameter: jest.fn(),
+			getCredentials: jest.fn().mockResolvedValue({
+				region: 'us-east-1',
+				accessKeyId: 'test-access-key',
+				secretAccessKey: 'test-secret-key',
+			}),
+			getNode: jest.fn().mockReturnValue({}),
+			continueOnFail: jest.fn().mockReturnValue(false),
+		} as any;
+
+		jest.clearAllMocks();
+	});
+
+	describe('Node Description', () => {
+		it('should have correct node description', () => {
+			expect(awsSqs.description.displayName).toBe('AWS SQS');
+			expect(awsSqs.description.name).toBe('awsSqs');
+			expect(awsSqs.description.icon).toBe('file:awssqs.svg');
+			expect(awsSqs.description.version).toBe(1);
+		});
+
+		it('should reuse the getQueues load options method', () => {
+			expect(awsSqs.methods.loadOptions.getQueues).toBeDefined();
+		});
+
+		it('should select the queue with a resource locator', () => {
+			const queueProperty = awsSqs.description.properties.find((p) => p.name === 'queue');
+			expect(queueProperty?.type).toBe('resourceLocator');
+			expect(queueProperty?.modes?.map((mode) => mode.name)).toEqual([
+				'list',
+				'url',
+				'name',
+				'arn',
+			]);
+			expect(awsSqs.methods.listSearch.searchQueues).toBeDefined();
+		});
+
+		it('should have options in alphabetical order', () => {
+			const optionsProperty = awsSqs.description.properties.find((p) => p.name === 'options');
+			expect(optionsProperty).toBeDefined();
+
+			if (optionsProperty && 'options' in optionsProperty) {
+				const options = optionsProperty.options as any[];
+				const names = options.map((opt) => opt.displayName);
+				expect(names).toEqual([...names].sort());
+			}
+		});
+	});
+
+	describe('execute - sendMessage', () => {
+		it('should send the input item JSON as the message body', async () => {
+			setParameters({ operation: 'sendMessage', queue: queueUrl, bodyType: 'inputData' });
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({
+				MessageId: 'msg-123',
+				MD5OfMessageBody: 'md5-hash',
+			});
+
+			const result = await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(MockedSendMessageCommand).toHaveBeenCalledWith({
+				QueueUrl: queueUrl,
+				MessageBody: '{"id":1,"name":"test"}',
+			});
+			expect(result).toEqual([
+				[
+					{
+						json: {
+							messageId: 'msg-123',
+							sequenceNumber: undefined,
+							md5OfMessageBody: 'md5-hash',
+							md5OfMessageAttributes: undefined,
+						},
+						pairedItem: { item: 0 },
+					},
+				],
+			]);
+			expect(mockSqsClient.destroy).toHaveBeenCalled();
+		});
+
+		it('should send a raw string body with attributes and delay', async () => {
+			setParameters({
+				operation: 'sendMessage',
+				queue: queueUrl,
+				bodyType: 'raw',
+				message: 'hello',
+				options: {
+					delaySeconds: 10,
+					messageAttributes: {
+						attribute: [
+							{ name: 'source', dataType: 'String', value: 'n8n' },
+							{ name: 'priority', dataType: 'Number', value: '5' },
+							{ name: 'payload', dataType: 'Binary', value: 'aGVsbG8=' },
+						],
+					},
+				},
+			});
+
+			await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(MockedSendMessageCommand).toHaveBeenCalledWith({
+				QueueUrl: queueUrl,
+				MessageBody: 'hello',
+				DelaySeconds: 10,
+				MessageAttributes: {
+					source: { DataType: 'String', StringValue: 'n8n' },
+					priority: { DataType: 'Number', StringValue: '5' },
+					payload: { DataType: 'Binary', BinaryValue: Buffer.from('hello') },
+				},
+			});
+		});
+
+		it('should send a custom JSON body', async () => {
+			setParameters({
+				operation: 'sendMessage',
+				queue: queueUrl,
+				bodyType: 'json',
+				jsonBody: '{ "event": "created" }',
+			});
+
+			await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(MockedSendMessageCommand).toHaveBeenCalledWith({
+				QueueUrl: queueUrl,
+				MessageBody: '{"event":"created"}',
+			});
+		});
+
+		it('should reject invalid JSON body', async () => {
+			setParameters({
+				operation: 'sendMessage',
+				queue: queueUrl,
+				bodyType: 'json',
+				jsonBody: '{ invalid',
+			});
+
+			await expect(awsSqs.execute.call(mockExecuteFunctions)).rejects.toThrow(NodeOperationError);
+		});
+
+		it('should send FIFO parameters and return the sequence number', async () => {
+			setParameters({
+				operation: 'sendMessage',
+				queue: fifoQueueUrl,
+				bodyType: 'raw',
+				message: 'hello',
+				options: { messageGroupId: 'group-1', messageDeduplicationId: 'dedup-1' },
+			});
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({
+				MessageId: 'msg-123',
+				SequenceNumber: '18849496460467696128',
+			});
+
+			const result = await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(MockedSendMessageCommand).toHaveBeenCalledWith({
+				QueueUrl: fifoQueueUrl,
+				MessageBody: 'hello',
+				MessageGroupId: 'group-1',
+				MessageDeduplicationId: 'dedup-1',
+			});
+			expect(result[0][0].json.sequenceNumber).toBe('18849496460467696128');
+		});
+
+		it('should require a message group ID for FIFO queues', async () => {
+			setParameters({
+				operation: 'sendMessage',
+				queue: fifoQueueUrl,
+				bodyType: 'raw',
+				message: 'hello',
+			});
+
+			await expect(awsSqs.execute.call(mockExecuteFunctions)).rejects.toThrow(NodeOperationError);
+			expect(mockSqsClient.send).not.toHaveBeenCalled();
+		});
+
+		it('should resolve a queue name once for all items', async () => {
+			mockExecuteFunctions.getInputData.mockReturnValue([{ json: { id: 1 } }, { json: { id: 2 } }]);
+			setParameters({ operation: 'sendMessage', queue: 'test-queue', bodyType: 'inputData' });
+			(mockSqsClient.send as jest.Mock)
+				.mockResolvedValueOnce({ QueueUrl: queueUrl })
+				.mockResolvedValue({ MessageId: 'msg-123' });
+
+			await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(GetQueueUrlCommand).toHaveBeenCalledTimes(1);
+			expect(GetQueueUrlCommand).toHaveBeenCalledWith({ QueueName: 'test-queue' });
+			expect(MockedSendMessageCommand).toHaveBeenCalledTimes(2);
+			expect(MockedSendMessageCommand).toHaveBeenCalledWith(
+				expect.objectContaining({ QueueUrl: queueUrl }),
+			);
+		});
+
+		it('should convert a queue ARN to its URL', async () => {
+			setParameters({
+				operation: 'sendMessage',
+				queue: 'arn:aws:sqs:us-east-1:123456789012:test-queue.fifo',
+				bodyType: 'inputData',
+				options: { messageGroupId: 'group-1' },
+			});
+
+			await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(GetQueueUrlCommand).not.toHaveBeenCalled();
+			expect(MockedSendMessageCommand).toHaveBeenCalledWith(
+				expect.objectContaining({ QueueUrl: fifoQueueUrl }),
+			);
+		});
+
+		it('should wrap API errors', async () => {
+			setParameters({ operation: 'sendMessage', queue: queueUrl, bodyType: 'inputData' });
+			(mockSqsClient.send as jest.Mock).mockRejectedValue(new Error('AWS API Error'));
+
+			await expect(awsSqs.execute.call(mockExecuteFunctions)).rejects.toThrow(NodeApiError);
+			expect(mockSqsClient.destroy).toHaveBeenCalled();
+		});
+
+		it('should return the error on the item when continueOnFail is enabled', async () => {
+			setParameters({ operation: 'sendMessage', queue: queueUrl, bodyType: 'inputData' });
+			mockExecuteFunctions.continueOnFail.mockReturnValue(true);
+			(mockSqsClient.send as jest.Mock).mockRejectedValue(new Error('AWS API Error'));
+
+			const result = await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(result).toEqual([[{ json: { error: 'AWS API Error' }, pairedItem: { item: 0 } }]]);
+		});
+	});
+
+	describe('execute - sendMessageBatch', () => {
+		const createItems = (count: number) =>
+			Array.from({ length: count }, (_, index) => ({ json: { index } }));
+
+		it('should split items into batches of 10 entries', async () => {
+			mockExecuteFunctions.getInputData.mockReturnValue(createItems(25));
+			setParameters({ operation: 'sendMessageBatch', queue: queueUrl, bodyType: 'inputData' });
+			(mockSqsClient.send as jest.Mock).mockImplementation(async () => {
+				const calls = MockedSendMessageBatchCommand.mock.calls;
+				const { Entries } = calls[calls.length - 1][0];
+				return {
+					Successful: Entries!.map((entry) => ({ Id: entry.Id, MessageId: `msg-${entry.Id}` })),
+				};
+			});
+
+			const result = await awsSqs.execute.call(mockExecuteFunctions);
+
+			const batchSizes = MockedSendMessageBatchCommand.mock.calls.map(
+				([input]) => input.Entries!.length,
+			);
+			expect(batchSizes).toEqual([10, 10, 5]);
+			expect(MockedSendMessageBatchCommand.mock.calls[0][0].Entries![0]).toEqual({
+				Id: '0',
+				MessageBody: '{"index":0}',
+			});
+			expect(result).toHaveLength(1);
+			expect(result[0]).toHaveLength(25);
+			expect(result[0][24]).toEqual({
+				json: {
+					messageId: 'msg-24',
+					sequenceNumber: undefined,
+					md5OfMessageBody: undefined,
+					md5OfMessageAttributes: undefined,
+				},
+				pairedItem: { item: 24 },
+			});
+		});
+
+		it('should start a new batch before exceeding the payload size limit', async () => {
+			const largeValue = 'x'.repeat(100000);
+			mockExecuteFunctions.getInputData.mockReturnValue(
+				Array.from({ length: 3 }, () => ({ json: { value: largeValue } })),
+			);
+			setParameters({ operation: 'sendMessageBatch', queue: queueUrl, bodyType: 'inputData' });
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({ Successful: [] });
+
+			await awsSqs.execute.call(mockExecuteFunctions);
+
+			const batchSizes = MockedSendMessageBatchCommand.mock.calls.map(
+				([input]) => input.Entries!.length,
+			);
+			expect(batchSizes).toEqual([2, 1]);
+		});
+
+		it('should fail the node when an entry fails by default', async () => {
+			mockExecuteFunctions.getInputData.mockReturnValue(createItems(2));
+			setParameters({ operation: 'sendMessageBatch', queue: queueUrl, bodyType: 'inputData' });
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({
+				Successful: [{ Id: '0', MessageId: 'msg-0' }],
+				Failed: [{ Id: '1', Code: 'InternalError', Message: 'Try again', SenderFault: false }],
+			});
+
+			await expect(awsSqs.execute.call(mockExecuteFunctions)).rejects.toThrow(
+				'Failed to send message: Try again',
+			);
+			expect(mockSqsClient.destroy).toHaveBeenCalled();
+		});
+
+		it('should pass failed entries through the second output', async () => {
+			mockExecuteFunctions.getInputData.mockReturnValue(createItems(3));
+			setParameters({
+				operation: 'sendMessageBatch',
+				queue: queueUrl,
+				bodyType: 'inputData',
+				onFailedEntries: 'output',
+			});
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({
+				Successful: [
+					{ Id: '0', MessageId: 'msg-0' },
+					{ Id: '2', MessageId: 'msg-2' },
+				],
+				Failed: [{ Id: '1', Code: 'InternalError', Message: 'Try again', SenderFault: false }],
+			});
+
+			const result = await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(result).toHaveLength(2);
+			expect(result[0].map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 2 }]);
+			expect(result[1]).toEqual([
+				{
+					json: {
+						index: 1,
+						error: { code: 'InternalError', message: 'Try again', senderFault: false },
+					},
+					pairedItem: { item: 1 },
+				},
+			]);
+		});
+
+		it('should route all entries of a rejected batch to the failed output', async () => {
+			mockExecuteFunctions.getInputData.mockReturnValue(createItems(2));
+			setParameters({
+				operation: 'sendMessageBatch',
+				queue: queueUrl,
+				bodyType: 'inputData',
+				onFailedEntries: 'output',
+			});
+			const error = new Error('Access denied');
+			error.name = 'AccessDenied';
+			(mockSqsClient.send as jest.Mock).mockRejectedValue(error);
+
+			const result = await awsSqs.execute.call(mockExecuteFunctions);
+
+			expect(result[0]).toEqual([]);
+			expect(result[1].map((item) => item.json.error)).toEqual([
+				{ code: 'AccessDenied', message: 'Access denied' },
+				{ code: 'AccessDenied', message: 'Access denied' },
+			]);
+		});
+
+		it('should throw API errors when failures are not routed', async () => {
+			mockExecuteFunctions.getInputData.mockReturnValue(createItems(2));
+			setParameters({ operation: 'sendMessageBatch', queue: queueUrl, bodyType: 'inputData' });
+			(mockSqsClient.send as jest.Mock).mockRejectedValue(new Error('AWS API Error'));
+
+			await expect(awsSqs.execute.call(mockExecuteFunctions)).rejects.toThrow(NodeApiError);
+		});
+	});
+});
@@ -1,15 +1,94 @@
 import { AwsSqsTrigger } from '../../nodes/Aws/SQS/AwsSqsTrigger.node';
 import {
 	ILoadOptionsFunctions,
+	INode,
 	ITriggerFunctions,
 	NodeApiError,
+	NodeHelpers,
 	NodeOperationError,
 } from 'n8n-workflow';
-import { SQSClient } from '@aws-sdk/client-sqs';
+import {
+	SQSClient,
+	DeleteMessageCommand,
+	DeleteMessageBatchCommand,
+	ChangeMessageVisibilityCommand,
+	ReceiveMessageCommand,
+	ListQueuesCommand,
+	GetQueueUrlCommand,
+	SendMessageCommand,
+} from '@aws-sdk/client-sqs';
+
+import { S3Client, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { fromNodeProviderChain, fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { deflateSync, gzipSync } from 'zlib';
 
 jest.mock('@aws-sdk/client-sqs');
+jest.mock('@aws-sdk/client-s3');
+jest.mock('@aws-sdk/credential-providers');
 
 const MockedSQSClient = SQSClient as jest.MockedClass<typeof SQSClient>;
+const MockedS3Client = S3Client as jest.MockedClass<typeof S3Client>;
+
+const createDeferredPromise = () => {
+	let resolve!: (value: unknown) => void;
+	let reject!: (error: Error) => void;
+	const promise = new Promise((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+};
+
+const flushPromises = async () => {
+	for (let i = 0; i < 20; i++) {
+		await Promise.resolve();
+	}
+};
+
+const TEST_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/test-queue';
+
+const createTriggerFunctions = () =>
+	({
+		getNodeParameter: jest.fn(),
+		getCredentials: jest.fn(),
+		getNode: jest.fn().mockReturnValue({}),
+		getMode: jest.fn().mockReturnValue('trigger'),
+		getWorkflowStaticData: jest.fn().mockReturnValue({}),
+		emit: jest.fn(),
+		emitError: jest.fn(),
+		logger: { debug: jest.fn(), error: jest.fn(), warn: jest.fn() },
+		helpers: {
+			createDeferredPromise: jest.fn(createDeferredPromise),
+			prepareBinaryData: jest.fn(async (data: Buffer) => ({
+				data: data.toString('base64'),
+				mimeType: 'application/octet-stream',
+			})),
+		},
+	}) as unknown as jest.Mocked<ITriggerFunctions>;
+
+// Looks the trigger parameters up by name. Unless overridden, the trigger polls the
+// test queue every second with the static keys of the AWS credential.
+const setTriggerParameters = (
+	triggerFunctions: jest.Mocked<ITriggerFunctions>,
+	options: Record<string, unknown> = {},
+	parameters: Record<string, unknown> = {},
+) => {
+	const values: Record<string, unknown> = {
+		queue: TEST_QUEUE_URL,
+		interval: 1,
+		unit: 'seconds',
+		options,
+		...parameters,
+	};
+	triggerFunctions.getNodeParameter.mockImplementation(
+		(name: string, fallbackValue?: unknown) => (values[name] ?? fallbackValue) as any,
+	);
+	triggerFunctions.getCredentials.mockResolvedValue({
+		region: 'us-east-1',
+		accessKeyId: 'test-access-key',
+		secretAccessKey: 'test-secret-key',
+	});
+};
 
 describe('AwsSqsTrigger', () => {
 	let awsSqsTrigger: AwsSqsTrigger;
@@ -33,7 +112,8 @@ describe('AwsSqsTrigger', () => {
 			expect(awsSqsTrigger.description.name).toBe('awsSqsTrigger');
 			expect(awsSqsTrigger.description.icon).toBe('file:awssqs.svg');
 			expect(awsSqsTrigger.description.group).toEqual(['trigger']);
-			expect(awsSqsTrigger.description.version).toBe(1);
+			expect(awsSqsTrigger.description.version).toEqual([1, 2]);
+			expect(awsSqsTrigger.description.defaultVersion).toBe(2);
 		});
 
 		it('should have required credentials', () => {
@@ -41,17 +121,32 @@ describe('AwsSqsTrigger', () => {
 				{
 					name: 'aws',
 					required: true,
+					displayOptions: {
+						hide: {
+							credentialMode: ['defaultProviderChain'],
+							assumeRoleSource: ['defaultProviderChain'],
+						},
+					},
 				},
 			]);
 		});
 
 		it('should have correct properties structure', () => {
 			const properties = awsSqsTrigger.description.properties;
-			expect(properties).toHaveLength(4);
+			expect(properties).toHaveLength(14);
+
+			const queueSelectionProperty = properties.find((p) => p.name === 'queueSelection');
+			expect(queueSelectionProperty?.default).toBe('single');
 
-			const queueProperty = properties.find((p) => p.name === 'queue');
-			expect(queueProperty).toBeDefined();
-			expect(queueProperty?.required).toBe(true);
+			const credentialModeProperty = properties.find((p) => p.name === 'credentialMode');
+			expect(credentialModeProperty?.default).toBe('staticKeys');
+
+			const queueProperties = properties.filter((p) => p.name === 'queue');
+			expect(queueProperties.map((p) => [p.type, p.displayOptions?.show?.['@version']])).toEqual([
+				['resourceLocator', [2]],
+				['options', [1]],
+			]);
+			expect(queueProperties.every((p) => p.required)).toBe(true);
 
 			const intervalProperty = properties.find((p) => p.name === 'interval');
 			expect(intervalProperty).toBeDefined();
@@ -79,10 +174,66 @@ describe('AwsSqsTrigger', () => {
 		beforeEach(() => {
 			mockLoadOptionsFunctions = {
 				getCredentials: jest.fn(),
+				getCurrentNodeParameter: jest.fn(),
 				getNode: jest.fn(),
 			} as any;
 		});
 
+		it('should use the custom endpoint and rewrite queue URLs to path style', async () => {
+			mockLoadOptionsFunctions.getCredentials.mockResolvedValue({
+				region: 'us-east-1',
+				accessKeyId: 'test',
+				secretAccessKey: 'test',
+			});
+			mockLoadOptionsFunctions.getCurrentNodeParameter.mockImplementation((name) =>
+				name === 'options' ? { endpoint: 'http://localhost:4566/' } : undefined,
+			);
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({
+				QueueUrls: ['http://sqs.us-east-1.localhost.localstack.cloud:4566/000000000000/queue1'],
+			});
+
+			const result =
+				await awsSqsTrigger.methods.loadOptions.getQueues.call(mockLoadOptionsFunctions);
+
+			expect(MockedSQSClient).toHaveBeenCalledWith(
+				expect.objectContaining({ endpoint: 'http://localhost:4566/' }),
+			);
+			expect(result).toEqual([
+				{
+					name: 'queue1',
+					value: 'http://localhost:4566/000000000000/queue1',
+					description: 'Standard queue',
+				},
+			]);
+		});
+
+		it('should use the custom SQS endpoint of the credential', async () => {
+			mockLoadOptionsFunctions.getCredentials.mockResolvedValue({
+				region: 'us-east-1',
+				accessKeyId: 'test',
+				secretAccessKey: 'test',
+				customEndpoints: true,
+				sqsEndpoint: 'http://localhost:9324',
+			});
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({
+				QueueUrls: ['http://localhost:9324/000000000000/queue1'],
+			});
+
+			const result =
+				await awsSqsTrigger.methods.loadOptions.getQueues.call(mockLoadOptionsFunctions);
+
+			expect(MockedSQSClient).toHaveBeenCalledWith(
+				expect.objectContaining({ endpoint: 'http://localhost:9324' }),
+			);
+			expect(result).toEqual([
+				{
+					name: 'queue1',
+					value: 'http://localhost:9324/000000000000/queue1',
+					description: 'Standard queue',
+				},
+			]);
+		});
+
 		it('should load queues successfully', async () => {
 			const mockCredentials = {
 				region: 'us-east-1',
@@ -103,10 +254,15 @@ describe('AwsSqsTrigger', () => {
 				await awsSqsTrigger.methods.loadOptions.getQueues.call(mockLoadOptionsFunctions);
 
 			expect(result).toEqual([
-				{ name: 'queue1', value: 'https://sqs.us-east-1.amazonaws.com/123456789012/queue1' },
+				{
+					name: 'queue1',
+					value: 'https://sqs.us-east-1.amazonaws.com/123456789012/queue1',
+					description: 'Standard queue',
+				},
 				{
 					name: 'queue2.fifo',
 					value: 'https://sqs.us-east-1.amazonaws.com/123456789012/queue2.fifo',
+					description: 'FIFO queue',
 				},
 			]);
 
@@ -122,6 +278,44 @@ describe('AwsSqsTrigger', () => {
 			expect(mockSqsClient.destroy).toHaveBeenCalled();
 		});
 
+		it('should load all pages of queues and mark dead-letter queues', async () => {
+			mockLoadOptionsFunctions.getCredentials.mockResolvedValue({
+				region: 'us-east-1',
+				accessKeyId: 'test',
+				secretAccessKey: 'test',
+			});
+			(mockSqsClient.send as jest.Mock)
+				.mockResolvedValueOnce({
+					QueueUrls: ['https://sqs.us-east-1.amazonaws.com/123456789012/orders'],
+					NextToken: 'page-2',
+				})
+				.mockResolvedValueOnce({
+					QueueUrls: [
+						'https://sqs.us-east-1.amazonaws.com/123456789012/orders-dlq',
+						'https://sqs.us-east-1.amazonaws.com/123456789012/payments-dead-letter.fifo',
+					],
+				});
+
+			const result =
+				await awsSqsTrigger.methods.loadOptions.getQueues.call(mockLoadOptionsFunctions);
+
+			expect(ListQueuesCommand).toHaveBeenNthCalledWith(1, {
+				MaxResults: 1000,
+				NextToken: undefined,
+				QueueNamePrefix: undefined,
+			});
+			expect(ListQueuesCommand).toHaveBeenNthCalledWith(2, {
+				MaxResults: 1000,
+				NextToken: 'page-2',
+				QueueNamePrefix: undefined,
+			});
+			expect(result.map((option) => option.description)).toEqual([
+				'Standard queue',
+				'Dead-letter queue',
+				'Dead-letter FIFO queue',
+			]);
+		});
+
 		it('should return empty array when no queues exist', async () => {
 			const mockCredentials = {
 				region: 'us-east-1',
@@ -174,16 +368,74 @@ describe('AwsSqsTrigger', () => {
 		});
 	});
 
+	describe('listSearch - searchQueues', () => {
+		let mockLoadOptionsFunctions: jest.Mocked<ILoadOptionsFunctions>;
+
+		beforeEach(() => {
+			mockLoadOptionsFunctions = {
+				getCredentials: jest.fn().mockResolvedValue({
+					region: 'us-east-1',
+					accessKeyId: 'test',
+					secretAccessKey: 'test',
+				}),
+				getCurrentNodeParameter: jest.fn(),
+				getNode: jest.fn().mockReturnValue({}),
+			} as any;
+		});
+
+		it('should search queues by name prefix and return the pagination token', async () => {
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({
+				QueueUrls: [
+					'https://sqs.us-east-1.amazonaws.com/123456789012/orders',
+					'https://sqs.us-east-1.amazonaws.com/123456789012/orders.fifo',
+				],
+				NextToken: 'next-page',
+			});
+
+			const result = await awsSqsTrigger.methods.listSearch.searchQueues.call(
+				mockLoadOptionsFunctions,
+				'ord',
+				'this-page',
+			);
+
+			expect(ListQueuesCommand).toHaveBeenCalledWith({
+				MaxResults: 1000,
+				NextToken: 'this-page',
+				QueueNamePrefix: 'ord',
+			});
+			expect(result).toEqual({
+				results: [
+					{
+						name: 'orders (Standard queue)',
+						value: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders',
+						url: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders',
+					},
+					{
+						name: 'orders.fifo (FIFO queue)',
+						value: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders.fifo',
+						url: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders.fifo',
+					},
+				],
+				paginationToken: 'next-page',
+			});
+			expect(mockSqsClient.destroy).toHaveBeenCalled();
+		});
+
+		it('should throw NodeApiError when listing fails', async () => {
+			(mockSqsClient.send as jest.Mock).mockRejectedValue(new Error('Access denied'));
+
+			await expect(
+				awsSqsTrigger.methods.listSearch.searchQueues.call(mockLoadOptionsFunctions),
+			).rejects.toThrow(NodeApiError);
+			expect(mockSqsClient.destroy).toHaveBeenCalled();
+		});
+	});
+
 	describe('trigger', () => {
 		let mockTriggerFunctions: jest.Mocked<ITriggerFunctions>;
 
 		beforeEach(() => {
-			mockTriggerFunctions = {
-				getNodeParameter: jest.fn(),
-				getCredentials: jest.fn(),
-				getNode: jest.fn(),
-				emit: jest.fn(),
-			} as any;
+			mockTriggerFunctions = createTriggerFunctions();
 		});
 
 		it('should validate interval parameter', async () => {
@@ -332,6 +584,132 @@ describe('AwsSqsTrigger', () => {
 			await result.closeFunction?.();
 		});
 
+		it('should create the client with the custom endpoint option', async () => {
+			mockTriggerFunctions.getNodeParameter
+				.mockReturnValueOnce('http://localhost:4566/000000000000/test-queue')
+				.mockReturnValueOnce(1)
+				.mockReturnValueOnce('seconds')
+				.mockReturnValueOnce({ endpoint: 'http://localhost:4566' });
+
+			mockTriggerFunctions.getCredentials.mockResolvedValue({
+				region: 'us-east-1',
+				accessKeyId: 'test',
+				secretAccessKey: 'test',
+			});
+			(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+
+			const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+
+			expect(MockedSQSClient).toHaveBeenCalledWith({
+				region: 'us-east-1',
+				credentials: {
+					accessKeyId: 'test',
+					secretAccessKey: 'test',
+					sessionToken: undefined,
+				},
+				endpoint: 'http://localhost:4566',
+			});
+
+			await result.closeFunction?.();
+		});
+
+		describe('credential mode', () => {
+			const setParameters = (parameters: Record<string, unknown>) =>
+				setTriggerParameters(
+					mockTriggerFunctions,
+					{},
+					{
+						queue: 'https://sqs.eu-west-1.amazonaws.com/123456789012/test-queue',
+						...parameters,
+					},
+				);
+
+			beforeEach(() => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+			});
+
+			it('should use the default provider chain without reading the AWS credential', async () => {
+				const chainProvider = jest.fn();
+				(fromNodeProviderChain as jest.Mock).mockReturnValue(chainProvider);
+				setParameters({ credentialMode: 'defaultProviderChain', region: 'eu-west-1' });
+
+				const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+
+				expect(mockTriggerFunctions.getCredentials).not.toHaveBeenCalled();
+				expect(MockedSQSClient).toHaveBeenCalledWith({
+					region: 'eu-west-1',
+					credentials: chainProvider,
+				});
+
+				await result.closeFunction?.();
+			});
+
+			it('should assume a role with the static keys of the AWS credential', async () => {
+				const roleProvider = jest.fn();
+				(fromTemporaryCredentials as jest.Mock).mockReturnValue(roleProvider);
+				mockTriggerFunctions.getCredentials.mockResolvedValue({
+					region: 'us-east-1',
+					accessKeyId: 'test-access-key',
+					secretAccessKey: 'test-secret-key',
+				});
+				setParameters({
+					credentialMode: 'assumeRole',
+					roleArn: 'arn:aws:iam::210987654321:role/queue-reader',
+					externalId: 'external-id',
+					roleSessionName: 'n8n-aws-sqs',
+					region: 'eu-west-1',
+				});
+
+				const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+
+				expect(fromTemporaryCredentials).toHaveBeenCalledWith({
+					masterCredentials: {
+						accessKeyId: 'test-access-key',
+						secretAccessKey: 'test-secret-key',
+						sessionToken: undefined,
+					},
+					params: {
+						RoleArn: 'arn:aws:iam::210987654321:role/queue-reader',
+						RoleSessionName: 'n8n-aws-sqs',
+						ExternalId: 'external-id',
+					},
+					clientConfig: { region: 'eu-west-1' },
+				});
+				expect(MockedSQSClient).toHaveBeenCalledWith({
+					region: 'eu-west-1',
+					credentials: roleProvider,
+				});
+
+				await result.closeFunction?.();
+			});
+
+			it('should assume a role from the default provider chain', async () => {
+				const chainProvider = jest.fn();
+				(fromNodeProviderChain as jest.Mock).mockReturnValue(chainProvider);
+				setParameters({
+					credentialMode: 'assumeRole',
+					assumeRoleSource: 'defaultProviderChain',
+					roleArn: 'arn:aws:iam::210987654321:role/queue-reader',
+				});
+
+				const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+
+				expect(mockTriggerFunctions.getCredentials).not.toHaveBeenCalled();
+				expect(fromTemporaryCredentials).toHaveBeenCalledWith(
+					expect.objectContaining({
+						masterCredentials: chainProvider,
+						params: {
+							RoleArn: 'arn:aws:iam::210987654321:role/queue-reader',
+							RoleSessionName: 'n8n-aws-sqs',
+							ExternalId: undefined,
+						},
+					}),
+				);
+
+				await result.closeFunction?.();
+			});
+		});
+
 		it('should handle credentials without session token', async () => {
 			const mockCredentials = {
 				region: 'us-west-2',
@@ -649,6 +1027,107 @@ describe('AwsSqsTrigger', () => {
 
 			await result.closeFunction?.();
 		});
+
+		describe('queue resolution', () => {
+			const setParameters = (queue: string, options = {}) =>
+				setTriggerParameters(mockTriggerFunctions, options, { queue });
+
+			const waitForFirstPoll = async () => {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				await flushPromises();
+			};
+
+			it('should resolve a queue name with GetQueueUrl', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({
+						QueueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders',
+					})
+					.mockResolvedValue({ Messages: [] });
+				setParameters('orders');
+
+				const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+				await waitForFirstPoll();
+
+				expect(GetQueueUrlCommand).toHaveBeenCalledWith({ QueueName: 'orders' });
+				expect(ReceiveMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({
+						QueueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/orders',
+					}),
+				);
+
+				await result.closeFunction?.();
+			});
+
+			it('should convert a queue ARN to its URL without calling SQS', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+				setParameters('arn:aws-cn:sqs:cn-north-1:210987654321:orders.fifo');
+
+				const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+				await waitForFirstPoll();
+
+				expect(GetQueueUrlCommand).not.toHaveBeenCalled();
+				expect(ReceiveMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({
+						QueueUrl: 'https://sqs.cn-north-1.amazonaws.com.cn/210987654321/orders.fifo',
+					}),
+				);
+
+				await result.closeFunction?.();
+			});
+
+			it('should build the URL of a queue ARN on the custom endpoint', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+				setParameters('arn:aws:sqs:us-east-1:000000000000:orders', {
+					endpoint: 'http://localhost:4566',
+				});
+
+				const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+				await waitForFirstPoll();
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ QueueUrl: 'http://localhost:4566/000000000000/orders' }),
+				);
+
+				await result.closeFunction?.();
+			});
+
+			it('should throw NodeApiError when the queue name cannot be resolved', async () => {
+				(mockSqsClient.send as jest.Mock).mockRejectedValue(new Error('Queue does not exist'));
+				setParameters('missing');
+
+				await expect(awsSqsTrigger.trigger.call(mockTriggerFunctions)).rejects.toThrow(
+					NodeApiError,
+				);
+				expect(mockSqsClient.destroy).toHaveBeenCalled();
+			});
+
+			it('should poll the plain queue URL saved by version 1', async () => {
+				const queueUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/legacy-queue';
+				const node = { typeVersion: 1, parameters: { queue: queueUrl } } as unknown as INode;
+				const parameters = NodeHelpers.getNodeParameters(
+					awsSqsTrigger.description.properties,
+					node.parameters,
+					true,
+					false,
+					node,
+					awsSqsTrigger.description,
+				);
+				expect(parameters?.queue).toBe(queueUrl);
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+				setParameters(parameters!.queue as string);
+
+				const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+				await waitForFirstPoll();
+
+				expect(GetQueueUrlCommand).not.toHaveBeenCalled();
+				expect(ReceiveMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ QueueUrl: queueUrl }),
+				);
+
+				await result.closeFunction?.();
+			});
+		});
 	});
 
 	describe('trigger execution with fake timers', () => {
@@ -657,14 +1136,8 @@ describe('AwsSqsTrigger', () => {
 
 		beforeEach(() => {
 			jest.useFakeTimers();
-			mockEmit = jest.fn();
-
-			mockTriggerFunctions = {
-				getNodeParameter: jest.fn(),
-				getCredentials: jest.fn(),
-				getNode: jest.fn(),
-				emit: mockEmit,
-			} as any;
+			mockTriggerFunctions = createTriggerFunctions();
+			mockEmit = mockTriggerFunctions.emit as jest.Mock;
 		});
 
 		afterEach(() => {
@@ -672,6 +1145,16 @@ describe('AwsSqsTrigger', () => {
 			jest.useRealTimers();
 		});
 
+		// Activates the trigger and runs its first poll
+		const startPolling = async () => {
+			const result = await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+
+			jest.advanceTimersByTime(0);
+			await flushPromises();
+
+			return result;
+		};
+
 		it('should execute trigger and process single message with deletion', async () => {
 			const mockCredentials = {
 				region: 'us-east-1',
@@ -705,7 +1188,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -722,6 +1205,7 @@ describe('AwsSqsTrigger', () => {
 							messageAttributes: { priority: { StringValue: 'high' } },
 							md5OfBody: 'md5-hash',
 							md5OfMessageAttributes: 'md5-attr-hash',
+							deleteStatus: 'deleted',
 						},
 					},
 				],
@@ -773,7 +1257,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -790,6 +1274,7 @@ describe('AwsSqsTrigger', () => {
 							messageAttributes: {},
 							md5OfBody: 'md5-hash-1',
 							md5OfMessageAttributes: undefined,
+							deleteStatus: 'deleted',
 						},
 					},
 					{
@@ -802,6 +1287,7 @@ describe('AwsSqsTrigger', () => {
 							messageAttributes: {},
 							md5OfBody: 'md5-hash-2',
 							md5OfMessageAttributes: undefined,
+							deleteStatus: 'deleted',
 						},
 					},
 				],
@@ -841,7 +1327,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -872,7 +1358,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -902,7 +1388,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -943,7 +1429,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -960,6 +1446,7 @@ describe('AwsSqsTrigger', () => {
 							messageAttributes: {},
 							md5OfBody: 'md5-hash',
 							md5OfMessageAttributes: undefined,
+							deleteStatus: 'deleted',
 						},
 					},
 				],
@@ -998,7 +1485,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -1015,6 +1502,7 @@ describe('AwsSqsTrigger', () => {
 							messageAttributes: {},
 							md5OfBody: 'md5-hash',
 							md5OfMessageAttributes: undefined,
+							deleteStatus: 'deleted',
 						},
 					},
 				],
@@ -1049,7 +1537,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute only the immediate timer, not the recursive ones
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Stop the trigger to prevent infinite loop
 			await result.closeFunction?.();
@@ -1083,7 +1571,7 @@ describe('AwsSqsTrigger', () => {
 
 			// Execute the first timer (immediate)
 			jest.advanceTimersByTime(0);
-			await Promise.resolve();
+			await flushPromises();
 
 			// Verify the first call was made
 			expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(1);
@@ -1093,5 +1581,2267 @@ describe('AwsSqsTrigger', () => {
 
 			await result.closeFunction?.();
 		});
+
+		describe('acknowledge mode', () => {
+			const mockMessage = {
+				MessageId: 'msg-123',
+				ReceiptHandle: 'receipt-handle-123',
+				Body: '{"test": "data"}',
+				Attributes: {},
+				MessageAttributes: {},
+				MD5OfBody: 'md5-hash',
+			};
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: [mockMessage] })
+					.mockResolvedValue({});
+
+				return await startPolling();
+			};
+
+			it('should delete messages only after the execution succeeds', async () => {
+				const result = await startTrigger({ acknowledgeMode: 'executionFinishesSuccessfully' });
+
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(1);
+
+				const donePromise = mockEmit.mock.calls[0][2];
+				donePromise.resolve({ data: { resultData: {} } });
+				await flushPromises();
+
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(2);
+				expect(DeleteMessageCommand).toHaveBeenCalledWith({
+					QueueUrl: TEST_QUEUE_URL,
+					ReceiptHandle: 'receipt-handle-123',
+				});
+
+				await result.closeFunction?.();
+			});
+
+			it('should keep messages in the queue when the execution fails', async () => {
+				const result = await startTrigger({ acknowledgeMode: 'executionFinishesSuccessfully' });
+
+				const donePromise = mockEmit.mock.calls[0][2];
+				donePromise.resolve({ data: { resultData: { error: new Error('Workflow failed') } } });
+				await flushPromises();
+
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(1);
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+
+			it('should reset visibility when the execution fails and release is enabled', async () => {
+				const result = await startTrigger({
+					acknowledgeMode: 'executionFinishesSuccessfully',
+					releaseOnFailure: true,
+				});
+
+				const donePromise = mockEmit.mock.calls[0][2];
+				donePromise.resolve({ data: { resultData: { error: new Error('Workflow failed') } } });
+				await flushPromises();
+
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+				expect(ChangeMessageVisibilityCommand).toHaveBeenCalledWith({
+					QueueUrl: TEST_QUEUE_URL,
+					ReceiptHandle: 'receipt-handle-123',
+					VisibilityTimeout: 0,
+				});
+
+				await result.closeFunction?.();
+			});
+
+			it('should never delete messages in never mode', async () => {
+				const result = await startTrigger({ acknowledgeMode: 'never' });
+
+				expect(mockEmit).toHaveBeenCalledWith([expect.any(Array)]);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('polling mode', () => {
+			const mockMessage = {
+				MessageId: 'msg-123',
+				ReceiptHandle: 'receipt-handle-123',
+				Body: 'message',
+			};
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				return await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+			};
+
+			const advance = async (ms: number) => {
+				jest.advanceTimersByTime(ms);
+				await flushPromises();
+			};
+
+			it('should poll again immediately while messages are returned', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: [mockMessage] })
+					.mockResolvedValueOnce({ Messages: [mockMessage] })
+					.mockResolvedValue({ Messages: [] });
+
+				const result = await startTrigger({ pollingMode: 'continuous', deleteMessages: false });
+
+				await advance(0);
+				await advance(0);
+				await advance(0);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(3);
+				expect(mockEmit).toHaveBeenCalledTimes(2);
+
+				await advance(0);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(3);
+
+				await advance(1000);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(4);
+
+				await result.closeFunction?.();
+			});
+
+			it('should rely on the long-poll wait when the queue is empty', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+
+				const result = await startTrigger({ pollingMode: 'continuous', waitTimeSeconds: 20 });
+
+				await advance(0);
+				await advance(0);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(2);
+
+				await result.closeFunction?.();
+			});
+
+			it('should wait for the interval after messages in interval mode', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: [mockMessage] })
+					.mockResolvedValue({ Messages: [] });
+
+				const result = await startTrigger({ deleteMessages: false });
+
+				await advance(0);
+				await advance(0);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(1);
+
+				await advance(1000);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(2);
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('concurrency', () => {
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				return await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+			};
+
+			it('should start one receive loop per configured poller on a shared client', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+
+				const result = await startTrigger({ concurrency: 3 });
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				expect(MockedSQSClient).toHaveBeenCalledTimes(1);
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(3);
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(6);
+
+				await result.closeFunction?.();
+			});
+
+			it('should stop all receive loops on close', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValue({ Messages: [] });
+
+				const result = await startTrigger({ concurrency: 3 });
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				await result.closeFunction?.();
+
+				jest.advanceTimersByTime(5000);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(3);
+				expect(mockSqsClient.destroy).toHaveBeenCalled();
+			});
+
+			it('should ignore receives aborted by close', async () => {
+				let rejectReceive!: (error: Error) => void;
+				(mockSqsClient.send as jest.Mock).mockReturnValue(
+					new Promise((_, reject) => {
+						rejectReceive = reject;
+					}),
+				);
+
+				const result = await startTrigger({});
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				await result.closeFunction?.();
+
+				rejectReceive(new Error('Request aborted'));
+				await flushPromises();
+				expect(mockEmit).not.toHaveBeenCalled();
+			});
+
+			it('should validate the concurrency option', async () => {
+				await expect(startTrigger({ concurrency: 0 })).rejects.toThrow(NodeOperationError);
+			});
+		});
+
+		describe('batching window', () => {
+			const createMessages = (count: number, offset = 0) =>
+				Array.from({ length: count }, (_, index) => ({
+					MessageId: `msg-${offset + index}`,
+					ReceiptHandle: `receipt-handle-${offset + index}`,
+					Body: `message ${offset + index}`,
+				}));
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				return await startPolling();
+			};
+
+			it('should collect messages over several receives until the batch size is reached', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: createMessages(10) })
+					.mockResolvedValueOnce({ Messages: createMessages(10, 10) })
+					.mockResolvedValueOnce({ Messages: createMessages(5, 20) })
+					.mockResolvedValue({});
+
+				const result = await startTrigger({ batchSize: 25, batchWindow: 30 });
+				await result.closeFunction?.();
+
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				expect(mockEmit.mock.calls[0][0][0]).toHaveLength(25);
+
+				const receiveCalls = (ReceiveMessageCommand as unknown as jest.Mock).mock.calls;
+				expect(receiveCalls[0][0]).toMatchObject({
+					MaxNumberOfMessages: 10,
+					VisibilityTimeout: 60,
+				});
+				expect(receiveCalls[2][0]).toMatchObject({
+					MaxNumberOfMessages: 5,
+					WaitTimeSeconds: 20,
+					VisibilityTimeout: 60,
+				});
+
+				const deleteCalls = (DeleteMessageBatchCommand as unknown as jest.Mock).mock.calls;
+				expect(deleteCalls.map(([input]) => input.Entries.length)).toEqual([10, 10, 5]);
+			});
+
+			it('should emit the collected messages when the window has passed', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: createMessages(3) })
+					.mockImplementationOnce(async () => {
+						jest.setSystemTime(Date.now() + 5000);
+						return { Messages: createMessages(2, 3) };
+					})
+					.mockResolvedValue({});
+
+				const result = await startTrigger({
+					batchSize: 100,
+					batchWindow: 5,
+					deleteMessages: false,
+				});
+				await result.closeFunction?.();
+
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(2);
+				expect(mockEmit.mock.calls[0][0][0]).toHaveLength(5);
+			});
+
+			it('should stop collecting when the queue is drained without a window', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: createMessages(10) })
+					.mockResolvedValueOnce({ Messages: createMessages(4, 10) })
+					.mockResolvedValueOnce({ Messages: [] });
+
+				const result = await startTrigger({ batchSize: 50, deleteMessages: false });
+				await result.closeFunction?.();
+
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(3);
+				expect(mockEmit.mock.calls[0][0][0]).toHaveLength(14);
+			});
+
+			it('should collect up to the default batch size when only a window is set', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: createMessages(1) })
+					.mockResolvedValueOnce({ Messages: createMessages(9, 1) })
+					.mockResolvedValue({});
+
+				const result = await startTrigger({ batchWindow: 30, deleteMessages: false });
+				await result.closeFunction?.();
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(2);
+				expect((ReceiveMessageCommand as unknown as jest.Mock).mock.calls[0][0]).toMatchObject({
+					MaxNumberOfMessages: 10,
+					VisibilityTimeout: 60,
+				});
+				expect(mockEmit.mock.calls[0][0][0]).toHaveLength(10);
+			});
+			it('should emit deleted messages when a later delete request throws', async () => {
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) => {
+					if (command instanceof ReceiveMessageCommand) {
+						const receives = (ReceiveMessageCommand as unknown as jest.Mock).mock.calls.length;
+						return receives <= 2 ? { Messages: createMessages(10, (receives - 1) * 10) } : {};
+					}
+					if (
+						command instanceof DeleteMessageBatchCommand &&
+						(DeleteMessageBatchCommand as unknown as jest.Mock).mock.calls.length === 2
+					) {
+						throw Object.assign(new Error('socket hang up'), { name: 'ECONNRESET' });
+					}
+					return {};
+				});
+
+				const result = await startTrigger({ batchSize: 20 });
+				await result.closeFunction?.();
+
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				const items = mockEmit.mock.calls[0][0][0];
+				expect(items).toHaveLength(20);
+				expect(items.slice(0, 10).map((item: any) => item.json.deleteStatus)).toEqual(
+					Array(10).fill('deleted'),
+				);
+				expect(items[10].json).toMatchObject({
+					deleteStatus: 'failed',
+					deleteError: { code: 'ECONNRESET', message: 'socket hang up' },
+				});
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+			});
+
+			it('should batch when a window is set and the batch size does not exceed max messages', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: createMessages(4) })
+					.mockResolvedValueOnce({ Messages: createMessages(6, 4) })
+					.mockResolvedValue({});
+
+				const result = await startTrigger({
+					batchSize: 10,
+					batchWindow: 30,
+					maxNumberOfMessages: 10,
+					deleteMessages: false,
+				});
+				await result.closeFunction?.();
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(2);
+				expect((ReceiveMessageCommand as unknown as jest.Mock).mock.calls[1][0]).toMatchObject({
+					MaxNumberOfMessages: 6,
+					VisibilityTimeout: 60,
+				});
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				expect(mockEmit.mock.calls[0][0][0]).toHaveLength(10);
+			});
+		});
+
+		describe('visibility heartbeat', () => {
+			const mockMessage = {
+				MessageId: 'msg-123',
+				ReceiptHandle: 'receipt-handle-123',
+				Body: 'message',
+			};
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options, { unit: 'hours' });
+
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: [mockMessage] })
+					.mockResolvedValue({});
+
+				return await startPolling();
+			};
+
+			const advance = async (ms: number) => {
+				jest.advanceTimersByTime(ms);
+				await flushPromises();
+			};
+
+			it('should extend visibility until the maximum total is reached', async () => {
+				const result = await startTrigger({
+					acknowledgeMode: 'executionFinishesSuccessfully',
+					extendVisibility: true,
+					visibilityTimeout: 30,
+					maxVisibilityExtension: 40,
+				});
+
+				await advance(15000);
+				await advance(15000);
+				await advance(15000);
+				await advance(15000);
+
+				const visibilityCalls = (ChangeMessageVisibilityCommand as unknown as jest.Mock).mock.calls;
+				expect(visibilityCalls.map(([input]) => input.VisibilityTimeout)).toEqual([25, 10]);
+
+				await result.closeFunction?.();
+			});
+
+			it('should stop the heartbeat once the messages are acknowledged', async () => {
+				const result = await startTrigger({
+					acknowledgeMode: 'executionFinishesSuccessfully',
+					extendVisibility: true,
+					visibilityTimeout: 30,
+				});
+
+				await advance(15000);
+				expect(ChangeMessageVisibilityCommand).toHaveBeenCalledTimes(1);
+
+				mockEmit.mock.calls[0][2].resolve({ data: { resultData: {} } });
+				await flushPromises();
+				await advance(60000);
+
+				expect(ChangeMessageVisibilityCommand).toHaveBeenCalledTimes(1);
+				expect(DeleteMessageCommand).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+
+			it('should not extend visibility unless enabled', async () => {
+				const result = await startTrigger({
+					acknowledgeMode: 'executionFinishesSuccessfully',
+					visibilityTimeout: 30,
+				});
+
+				await advance(60000);
+				expect(ChangeMessageVisibilityCommand).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('error handling', () => {
+			const startTrigger = async () => {
+				setTriggerParameters(mockTriggerFunctions);
+
+				return await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+			};
+
+			const throttlingError = () =>
+				Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' });
+
+			beforeEach(() => {
+				jest.spyOn(Math, 'random').mockReturnValue(0);
+			});
+
+			afterEach(() => {
+				jest.spyOn(Math, 'random').mockRestore();
+			});
+
+			it('should retry transient errors with exponential backoff', async () => {
+				(mockSqsClient.send as jest.Mock)
+					.mockRejectedValueOnce(throttlingError())
+					.mockRejectedValueOnce(throttlingError())
+					.mockResolvedValue({ Messages: [] });
+
+				const result = await startTrigger();
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(1);
+				expect(mockTriggerFunctions.logger.warn).toHaveBeenCalledTimes(1);
+				expect(mockTriggerFunctions.logger.warn).toHaveBeenCalledWith(
+					expect.stringContaining('SQS poll failed, retrying (attempt 1 of'),
+				);
+
+				// First retry after half of 1 second, the second after half of 2 seconds
+				jest.advanceTimersByTime(500);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(2);
+
+				jest.advanceTimersByTime(999);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(2);
+
+				jest.advanceTimersByTime(1);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(3);
+
+				// Back to the regular interval after a successful receive
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(4);
+				expect(mockTriggerFunctions.emitError).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+
+			it('should report persistent errors once and keep polling', async () => {
+				(mockSqsClient.send as jest.Mock).mockRejectedValue(new Error('Access denied'));
+
+				const result = await startTrigger();
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledWith(expect.any(NodeApiError));
+
+				jest.advanceTimersByTime(500);
+				await flushPromises();
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(3);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+
+			it('should report transient errors that outlast the retries', async () => {
+				(mockSqsClient.send as jest.Mock).mockRejectedValue(throttlingError());
+
+				const result = await startTrigger();
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				for (const delay of [500, 1000, 2000, 4000, 8000]) {
+					expect(mockTriggerFunctions.emitError).not.toHaveBeenCalled();
+					jest.advanceTimersByTime(delay);
+					await flushPromises();
+				}
+
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(6);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+
+			it('should not report errors of receives aborted by close', async () => {
+				let rejectReceive!: (error: Error) => void;
+				(mockSqsClient.send as jest.Mock).mockReturnValue(
+					new Promise((_, reject) => {
+						rejectReceive = reject;
+					}),
+				);
+
+				const result = await startTrigger();
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				await result.closeFunction?.();
+
+				rejectReceive(Object.assign(new Error('Request aborted'), { name: 'AbortError' }));
+				await flushPromises();
+				jest.advanceTimersByTime(5000);
+				await flushPromises();
+				expect(mockTriggerFunctions.emitError).not.toHaveBeenCalled();
+				expect(mockSqsClient.send as jest.Mock).toHaveBeenCalledTimes(1);
+			});
+		});
+
+		describe('delete failures', () => {
+			const messages = [1, 2, 3].map((index) => ({
+				MessageId: `msg-${index}`,
+				ReceiptHandle: `receipt-handle-${index}`,
+				Body: `message ${index}`,
+			}));
+
+			const startTrigger = async (
+				options: Record<string, unknown>,
+				...deleteResponses: object[]
+			) => {
+				setTriggerParameters(mockTriggerFunctions, { maxNumberOfMessages: 10, ...options });
+
+				const send = (mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: messages,
+				});
+				for (const response of deleteResponses) {
+					send.mockResolvedValueOnce(response);
+				}
+				send.mockResolvedValue({});
+
+				return await startPolling();
+			};
+
+			const getDeletedReceiptHandles = () =>
+				(DeleteMessageBatchCommand as unknown as jest.Mock).mock.calls.map(([input]) =>
+					input.Entries.map((entry: { ReceiptHandle: string }) => entry.ReceiptHandle),
+				);
+
+			it('should retry entries that failed on the SQS side', async () => {
+				const result = await startTrigger(
+					{},
+					{ Failed: [{ Id: 'msg2', Code: 'InternalError', SenderFault: false }] },
+				);
+
+				expect(getDeletedReceiptHandles()).toEqual([
+					['receipt-handle-1', 'receipt-handle-2', 'receipt-handle-3'],
+					['receipt-handle-2'],
+				]);
+				expect(mockEmit.mock.calls[0][0][0][1].json.deleteStatus).toBe('deleted');
+				expect(mockTriggerFunctions.emitError).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+
+			it('should flag items whose messages could not be deleted', async () => {
+				const result = await startTrigger(
+					{},
+					{
+						Failed: [
+							{
+								Id: 'msg3',
+								Code: 'ReceiptHandleIsInvalid',
+								Message: 'The receipt handle has expired',
+								SenderFault: true,
+							},
+						],
+					},
+				);
+
+				// Sender faults are not retried
+				expect(getDeletedReceiptHandles()).toHaveLength(1);
+
+				const items = mockEmit.mock.calls[0][0][0];
+				expect(items[0].json.deleteStatus).toBe('deleted');
+				expect(items[2].json).toEqual(
+					expect.objectContaining({
+						messageId: 'msg-3',
+						deleteStatus: 'failed',
+						deleteError: {
+							code: 'ReceiptHandleIsInvalid',
+							message: 'The receipt handle has expired',
+						},
+					}),
+				);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledWith(expect.any(NodeOperationError));
+
+				await result.closeFunction?.();
+			});
+
+			it('should report entries that keep failing after the retries', async () => {
+				const failed = { Failed: [{ Id: 'msg1', Code: 'InternalError', SenderFault: false }] };
+				const result = await startTrigger({}, failed, failed, failed);
+
+				expect(getDeletedReceiptHandles()).toEqual([
+					['receipt-handle-1', 'receipt-handle-2', 'receipt-handle-3'],
+					['receipt-handle-1'],
+					['receipt-handle-1'],
+				]);
+				expect(mockEmit.mock.calls[0][0][0][0].json.deleteStatus).toBe('failed');
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+
+			it('should flag a single message that could not be deleted', async () => {
+				setTriggerParameters(mockTriggerFunctions);
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ Messages: [messages[0]] })
+					.mockRejectedValueOnce(
+						Object.assign(new Error('Internal error'), { name: 'InternalError', $fault: 'server' }),
+					)
+					.mockRejectedValueOnce(
+						Object.assign(new Error('The receipt handle has expired'), {
+							name: 'ReceiptHandleIsInvalid',
+							$fault: 'client',
+						}),
+					);
+
+				const result = await startPolling();
+
+				// Server faults are retried, sender faults are not
+				expect(DeleteMessageCommand).toHaveBeenCalledTimes(2);
+				expect(mockEmit.mock.calls[0][0][0][0].json).toEqual(
+					expect.objectContaining({
+						deleteStatus: 'failed',
+						deleteError: {
+							code: 'ReceiptHandleIsInvalid',
+							message: 'The receipt handle has expired',
+						},
+					}),
+				);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+
+			it('should report failed deletes after a successful execution', async () => {
+				const result = await startTrigger({ acknowledgeMode: 'executionFinishesSuccessfully' });
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Failed: [{ Id: 'msg1', Code: 'ReceiptHandleIsInvalid', SenderFault: true }],
+				});
+
+				const donePromise = mockEmit.mock.calls[0][2];
+				donePromise.resolve({ data: { resultData: {} } });
+				await flushPromises();
+
+				expect(getDeletedReceiptHandles()).toHaveLength(1);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('poison messages', () => {
+			const dlqUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/test-queue-dlq';
+			const healthyMessage = {
+				MessageId: 'msg-1',
+				ReceiptHandle: 'receipt-handle-1',
+				Body: 'healthy',
+				Attributes: { ApproximateReceiveCount: '1' },
+			};
+			const poisonMessage = {
+				MessageId: 'msg-2',
+				ReceiptHandle: 'receipt-handle-2',
+				Body: 'poison',
+				Attributes: { ApproximateReceiveCount: '4' },
+				MessageAttributes: {
+					tenant: { DataType: 'String', StringValue: 'acme', StringListValues: [] },
+				},
+			};
+
+			const startTrigger = async (options: Record<string, unknown>, messages: object[]) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({ Messages: messages });
+
+				return await startPolling();
+			};
+
+			it('should move messages over the max receive count to the dead-letter queue', async () => {
+				const result = await startTrigger({ maxReceiveCount: 3, deadLetterQueueUrl: dlqUrl }, [
+					healthyMessage,
+					poisonMessage,
+				]);
+
+				expect(SendMessageCommand).toHaveBeenCalledWith({
+					QueueUrl: dlqUrl,
+					MessageBody: 'poison',
+					MessageAttributes: {
+						tenant: { DataType: 'String', StringValue: 'acme', BinaryValue: undefined },
+						FailureReason: {
+							DataType: 'String',
+							StringValue: 'Exceeded max receive count of 3 (received 4 times)',
+						},
+					},
+				});
+				expect(DeleteMessageCommand).toHaveBeenCalledWith({
+					QueueUrl: TEST_QUEUE_URL,
+					ReceiptHandle: 'receipt-handle-2',
+				});
+
+				const items = mockEmit.mock.calls[0][0][0];
+				expect(items).toHaveLength(1);
+				expect(items[0].json.messageId).toBe('msg-1');
+
+				await result.closeFunction?.();
+			});
+
+			it('should drop messages over the max receive count', async () => {
+				const result = await startTrigger({ maxReceiveCount: 3, poisonMessageAction: 'drop' }, [
+					poisonMessage,
+				]);
+
+				expect(SendMessageCommand).not.toHaveBeenCalled();
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ ReceiptHandle: 'receipt-handle-2' }),
+				);
+				expect(mockEmit).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+
+			it('should keep poison messages in the queue when moving them fails', async () => {
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) => {
+					if (command instanceof SendMessageCommand) {
+						throw new Error('Access denied');
+					}
+					return {};
+				});
+
+				const result = await startTrigger({ maxReceiveCount: 3, deadLetterQueueUrl: dlqUrl }, [
+					poisonMessage,
+				]);
+
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+				expect(mockTriggerFunctions.logger.error).toHaveBeenCalled();
+				expect(mockEmit).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+
+			it('should move messages one by one and report a message that keeps failing', async () => {
+				const otherPoisonMessage = {
+					...poisonMessage,
+					MessageId: 'msg-3',
+					ReceiptHandle: 'receipt-handle-3',
+					Body: 'other poison',
+				};
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) => {
+					if (command instanceof ReceiveMessageCommand) {
+						return { Messages: [poisonMessage] };
+					}
+					if (
+						command instanceof SendMessageCommand &&
+						(SendMessageCommand as unknown as jest.Mock).mock.lastCall[0].MessageBody === 'poison'
+					) {
+						throw new Error('Access denied');
+					}
+					return {};
+				});
+
+				const result = await startTrigger({ maxReceiveCount: 3, deadLetterQueueUrl: dlqUrl }, [
+					poisonMessage,
+					otherPoisonMessage,
+				]);
+
+				expect(DeleteMessageCommand).toHaveBeenCalledTimes(1);
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ ReceiptHandle: 'receipt-handle-3' }),
+				);
+				expect(mockTriggerFunctions.emitError).not.toHaveBeenCalled();
+
+				for (let i = 0; i < 3; i++) {
+					jest.advanceTimersByTime(1000);
+					await flushPromises();
+				}
+
+				expect(SendMessageCommand).toHaveBeenCalledTimes(5);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledTimes(1);
+				expect(mockTriggerFunctions.emitError).toHaveBeenCalledWith(
+					expect.objectContaining({
+						message: 'Failed to move SQS message msg-2 to the dead-letter queue 3 times',
+					}),
+				);
+
+				await result.closeFunction?.();
+			});
+
+			it('should replace the last attribute with the failure reason when all are in use', async () => {
+				const messageAttributes: Record<string, object> = {};
+				for (let i = 0; i < 10; i++) {
+					messageAttributes[`attribute${i}`] = { DataType: 'String', StringValue: `${i}` };
+				}
+
+				const result = await startTrigger({ maxReceiveCount: 3, deadLetterQueueUrl: dlqUrl }, [
+					{ ...poisonMessage, MessageAttributes: messageAttributes },
+				]);
+
+				const { MessageAttributes } = (SendMessageCommand as unknown as jest.Mock).mock.calls[0][0];
+				expect(Object.keys(MessageAttributes)).toHaveLength(10);
+				expect(MessageAttributes.attribute8).toBeDefined();
+				expect(MessageAttributes.attribute9).toBeUndefined();
+				expect(MessageAttributes.FailureReason).toBeDefined();
+
+				await result.closeFunction?.();
+			});
+
+			it('should request the receive count when only some attributes are retrieved', async () => {
+				const result = await startTrigger(
+					{ maxReceiveCount: 3, poisonMessageAction: 'drop', attributeNames: 'SentTimestamp' },
+					[],
+				);
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({
+						AttributeNames: ['SentTimestamp', 'ApproximateReceiveCount'],
+					}),
+				);
+
+				await result.closeFunction?.();
+			});
+
+			it('should require a dead-letter queue URL to move messages', async () => {
+				setTriggerParameters(mockTriggerFunctions, { maxReceiveCount: 3 });
+
+				await expect(awsSqsTrigger.trigger.call(mockTriggerFunctions)).rejects.toThrow(
+					NodeOperationError,
+				);
+			});
+		});
+
+		describe('envelopes', () => {
+			const snsBody = {
+				Type: 'Notification',
+				MessageId: 'sns-message-id',
+				TopicArn: 'arn:aws:sns:us-east-1:123456789012:orders',
+				Subject: 'Order created',
+				Message: '{"orderId":42}',
+				Timestamp: '2026-01-01T00:00:00.000Z',
+				MessageAttributes: { tenant: { Type: 'String', Value: 'acme' } },
+			};
+			const eventBridgeBody = {
+				version: '0',
+				id: 'event-id',
+				'detail-type': 'Order Created',
+				source: 'shop.orders',
+				account: '123456789012',
+				time: '2026-01-01T00:00:00Z',
+				region: 'us-east-1',
+				resources: [],
+				detail: { orderId: 42 },
+			};
+			const s3Body = {
+				Records: [
+					{ eventSource: 'aws:s3', eventName: 'ObjectCreated:Put', s3: { object: { key: 'a' } } },
+					{ eventSource: 'aws:s3', eventName: 'ObjectCreated:Put', s3: { object: { key: 'b' } } },
+				],
+			};
+
+			const emitBody = async (body: object, options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [
+						{ MessageId: 'msg-1', ReceiptHandle: 'receipt-handle-1', Body: JSON.stringify(body) },
+					],
+				});
+
+				const result = await startPolling();
+				await result.closeFunction?.();
+
+				return mockEmit.mock.calls[0][0][0].map((item: { json: object }) => item.json);
+			};
+
+			it('should unwrap SNS notifications', async () => {
+				const [item] = await emitBody(snsBody, { envelope: 'sns' });
+
+				expect(item.parsedBody).toEqual({ orderId: 42 });
+				expect(item.body).toBe(JSON.stringify(snsBody));
+				expect(item.envelope).toEqual({
+					type: 'sns',
+					messageId: 'sns-message-id',
+					topicArn: 'arn:aws:sns:us-east-1:123456789012:orders',
+					subject: 'Order created',
+					timestamp: '2026-01-01T00:00:00.000Z',
+					messageAttributes: { tenant: { Type: 'String', Value: 'acme' } },
+				});
+			});
+
+			it('should auto-detect EventBridge events', async () => {
+				const [item] = await emitBody(eventBridgeBody, { envelope: 'auto' });
+
+				expect(item.parsedBody).toEqual({ orderId: 42 });
+				expect(item.envelope).toEqual(
+					expect.objectContaining({
+						type: 'eventBridge',
+						id: 'event-id',
+						detailType: 'Order Created',
+						source: 'shop.orders',
+					}),
+				);
+			});
+
+			it('should keep bodies that do not match the selected envelope', async () => {
+				const [item] = await emitBody(eventBridgeBody, { envelope: 'sns' });
+
+				expect(item.parsedBody).toEqual(eventBridgeBody);
+				expect(item.envelope).toBeUndefined();
+			});
+
+			it('should unwrap S3 event notifications into their records', async () => {
+				const items = await emitBody(s3Body, { envelope: 's3' });
+
+				expect(items).toHaveLength(1);
+				expect(items[0].parsedBody).toEqual(s3Body.Records);
+				expect(items[0].envelope).toEqual({ type: 's3', recordCount: 2 });
+			});
+
+			it('should split S3 records into separate items', async () => {
+				const items = await emitBody(s3Body, { envelope: 'auto', splitS3Records: true });
+
+				expect(items).toHaveLength(2);
+				expect(items.map((item: any) => item.parsedBody)).toEqual(s3Body.Records);
+				expect(items.map((item: any) => item.envelope.recordIndex)).toEqual([0, 1]);
+				expect(items[1].messageId).toBe('msg-1');
+			});
+		});
+
+		describe('S3 payloads', () => {
+			const pointerBody = JSON.stringify([
+				'software.amazon.payloadoffloading.PayloadS3Pointer',
+				{ s3BucketName: 'large-payloads', s3Key: 'payload-1' },
+			]);
+			let mockS3Client: { send: jest.Mock; destroy: jest.Mock };
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [
+						{ MessageId: 'msg-1', ReceiptHandle: 'receipt-handle-1', Body: pointerBody },
+						{ MessageId: 'msg-2', ReceiptHandle: 'receipt-handle-2', Body: 'small' },
+					],
+				});
+
+				const result = await startPolling();
+				await result.closeFunction?.();
+
+				return mockEmit.mock.calls[0]?.[0][0].map((item: { json: object }) => item.json);
+			};
+
+			beforeEach(() => {
+				mockS3Client = {
+					send: jest
+						.fn()
+						.mockImplementation(async (command) =>
+							command instanceof GetObjectCommand
+								? { Body: { transformToString: async () => '{"large":true}' } }
+								: {},
+						),
+					destroy: jest.fn(),
+				};
+				MockedS3Client.mockImplementation(() => mockS3Client as any);
+			});
+
+			it('should replace pointer messages with the payload stored in S3', async () => {
+				const [large, small] = await startTrigger({ s3Endpoint: 'http://localhost:4566' });
+
+				expect(MockedS3Client).toHaveBeenCalledWith(
+					expect.objectContaining({ endpoint: 'http://localhost:4566', forcePathStyle: true }),
+				);
+				expect(GetObjectCommand).toHaveBeenCalledWith({
+					Bucket: 'large-payloads',
+					Key: 'payload-1',
+				});
+				expect(large).toEqual(
+					expect.objectContaining({
+						body: '{"large":true}',
+						parsedBody: { large: true },
+						s3Payload: { bucket: 'large-payloads', key: 'payload-1' },
+					}),
+				);
+				expect(small.body).toBe('small');
+				expect(small.s3Payload).toBeUndefined();
+				expect(DeleteObjectCommand).not.toHaveBeenCalled();
+				expect(mockS3Client.destroy).toHaveBeenCalled();
+			});
+
+			it('should delete the S3 object together with the message', async () => {
+				await startTrigger({ s3Payloads: 'fetchAndDelete' });
+
+				expect(DeleteMessageBatchCommand).toHaveBeenCalled();
+				expect(DeleteObjectCommand).toHaveBeenCalledTimes(1);
+				expect(DeleteObjectCommand).toHaveBeenCalledWith({
+					Bucket: 'large-payloads',
+					Key: 'payload-1',
+				});
+			});
+
+			it('should emit pointer messages as they are when ignored', async () => {
+				const [large] = await startTrigger({ s3Payloads: 'ignore' });
+
+				expect(MockedS3Client).not.toHaveBeenCalled();
+				expect(large.body).toBe(pointerBody);
+			});
+
+			it('should keep the pointer with the error when the payload cannot be fetched', async () => {
+				mockS3Client.send.mockRejectedValue(
+					Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' }),
+				);
+
+				const [large, small] = await startTrigger({ s3Payloads: 'fetchAndDelete' });
+
+				expect(large.body).toBe(pointerBody);
+				expect(large.s3Error).toBe('The specified key does not exist.');
+				expect(large.s3Payload).toBeUndefined();
+				expect(small.body).toBe('small');
+				expect(small.s3Error).toBeUndefined();
+				expect(DeleteObjectCommand).not.toHaveBeenCalled();
+			});
+		});
+
+		describe('body decoding', () => {
+			const emitBody = async (
+				body: string,
+				options: Record<string, unknown>,
+				messageAttributes?: object,
+			) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [
+						{
+							MessageId: 'msg-1',
+							ReceiptHandle: 'receipt-handle-1',
+							Body: body,
+							MessageAttributes: messageAttributes,
+						},
+					],
+				});
+
+				const result = await startPolling();
+				await result.closeFunction?.();
+
+				return mockEmit.mock.calls[0][0][0][0];
+			};
+
+			it('should decode base64 encoded gzip JSON', async () => {
+				const body = gzipSync('{"orderId":42}').toString('base64');
+
+				const { json } = await emitBody(body, { bodyEncoding: 'base64', bodyCompression: 'gzip' });
+
+				expect(json.body).toBe('{"orderId":42}');
+				expect(json.parsedBody).toEqual({ orderId: 42 });
+			});
+
+			it('should auto-detect deflate compression and keep text bodies', async () => {
+				const body = deflateSync('{"orderId":42}').toString('base64');
+
+				const { json } = await emitBody(body, {
+					bodyEncoding: 'base64',
+					bodyCompression: 'auto',
+					bodyFormat: 'text',
+				});
+
+				expect(json.body).toBe('{"orderId":42}');
+				expect(json.parsedBody).toBe('{"orderId":42}');
+			});
+
+			it('should leave uncompressed content as it is when auto-detecting', async () => {
+				const { json } = await emitBody(Buffer.from('plain').toString('base64'), {
+					bodyEncoding: 'base64',
+					bodyCompression: 'auto',
+				});
+
+				expect(json.body).toBe('plain');
+			});
+
+			it('should leave plain bodies that look like zlib headers as they are when auto-detecting', async () => {
+				for (const body of ['80', '8080', 'x y', 'hb']) {
+					mockEmit.mockClear();
+
+					const { json } = await emitBody(body, { bodyCompression: 'auto' });
+
+					expect(json.body).toBe(body);
+					expect(json.decodeError).toBeUndefined();
+				}
+			});
+
+			it('should report bodies that do not inflate when deflate is selected', async () => {
+				const { json } = await emitBody('80', { bodyCompression: 'deflate' });
+
+				expect(json.body).toBe('80');
+				expect(json.decodeError).toEqual(expect.any(String));
+			});
+
+			it('should output the decoded body and binary attributes as binary data', async () => {
+				const body = gzipSync('binary content').toString('base64');
+
+				const item = await emitBody(
+					body,
+					{
+						bodyEncoding: 'base64',
+						bodyCompression: 'gzip',
+						binaryOutput: true,
+						binaryPropertyName: 'payload',
+					},
+					{
+						thumbnail: { DataType: 'Binary', BinaryValue: Buffer.from('image') },
+						tenant: { DataType: 'String', StringValue: 'acme' },
+					},
+				);
+
+				expect(item.json.body).toBeUndefined();
+				expect(item.json.parsedBody).toBeUndefined();
+				expect(Object.keys(item.binary)).toEqual(['payload', 'attribute_thumbnail']);
+				expect(Buffer.from(item.binary.payload.data, 'base64').toString()).toBe('binary content');
+				expect(Buffer.from(item.binary.attribute_thumbnail.data, 'base64').toString()).toBe(
+					'image',
+				);
+			});
+
+			it('should keep the raw body with the error when decoding fails', async () => {
+				const { json } = await emitBody('not gzip', { bodyCompression: 'gzip' });
+
+				expect(json.body).toBe('not gzip');
+				expect(json.decodeError).toEqual(expect.any(String));
+			});
+		});
+
+		describe('flattened message attributes', () => {
+			const messageAttributes = {
+				count: { DataType: 'Number', StringValue: '42' },
+				price: { DataType: 'Number.float', StringValue: '9.99' },
+				tenant: { DataType: 'String', StringValue: 'acme' },
+				label: { DataType: 'String.label', StringValue: 'urgent' },
+				note: { DataType: 'Binary', BinaryValue: Buffer.from('hello') },
+				image: { DataType: 'Binary.png', BinaryValue: Buffer.from([0xff, 0xfe]) },
+			};
+
+			const emitAttributes = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, options);
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [
+						{
+							MessageId: 'msg-1',
+							ReceiptHandle: 'receipt-handle-1',
+							Body: '{}',
+							MessageAttributes: messageAttributes,
+						},
+					],
+				});
+
+				const result = await startPolling();
+				await result.closeFunction?.();
+
+				return mockEmit.mock.calls[0][0][0][0].json;
+			};
+
+			it('should flatten attributes into typed values and keep the raw form', async () => {
+				const json = await emitAttributes({ flattenMessageAttributes: true });
+
+				expect(json.messageAttributes).toEqual({
+					count: 42,
+					price: 9.99,
+					tenant: 'acme',
+					label: 'urgent',
+					note: 'hello',
+					image: '//4=',
+				});
+				expect(json.rawMessageAttributes).toBe(messageAttributes);
+			});
+
+			it('should pass attributes through raw by default', async () => {
+				const json = await emitAttributes({});
+
+				expect(json.messageAttributes).toBe(messageAttributes);
+				expect(json.rawMessageAttributes).toBeUndefined();
+			});
+		});
+
+		describe('body validation', () => {
+			const dlqUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/test-queue-dlq';
+			const schema = JSON.stringify({
+				type: 'object',
+				required: ['orderId'],
+				properties: { orderId: { type: 'number' } },
+			});
+			const messages = [
+				{ MessageId: 'msg-1', ReceiptHandle: 'receipt-handle-1', Body: '{"orderId":1}' },
+				{ MessageId: 'msg-2', ReceiptHandle: 'receipt-handle-2', Body: '{"orderId":"two"}' },
+			];
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, {
+					maxNumberOfMessages: 10,
+					validateBody: schema,
+					...options,
+				});
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({ Messages: messages });
+
+				const result = await startPolling();
+				await result.closeFunction?.();
+			};
+
+			it('should route invalid items to the Invalid output', async () => {
+				await startTrigger({});
+
+				const [valid, invalid] = mockEmit.mock.calls[0][0];
+				expect(valid.map((item: any) => item.json.messageId)).toEqual(['msg-1']);
+				expect(invalid.map((item: any) => item.json.messageId)).toEqual(['msg-2']);
+				expect(invalid[0].json.validationErrors).toEqual([
+					expect.objectContaining({
+						path: '/orderId',
+						keyword: 'type',
+						message: 'must be number',
+					}),
+				]);
+				// Items of both outputs belong to the execution and are deleted
+				expect(DeleteMessageBatchCommand).toHaveBeenCalledTimes(1);
+			});
+
+			it('should move invalid messages to the dead-letter queue', async () => {
+				await startTrigger({
+					invalidMessageAction: 'moveToDeadLetterQueue',
+					deadLetterQueueUrl: dlqUrl,
+				});
+
+				expect(mockEmit.mock.calls[0][0]).toHaveLength(1);
+				expect(mockEmit.mock.calls[0][0][0].map((item: any) => item.json.messageId)).toEqual([
+					'msg-1',
+				]);
+				expect(SendMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({
+						QueueUrl: dlqUrl,
+						MessageBody: '{"orderId":"two"}',
+						MessageAttributes: {
+							FailureReason: {
+								DataType: 'String',
+								StringValue: 'Body failed schema validation: /orderId must be number',
+							},
+						},
+					}),
+				);
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ ReceiptHandle: 'receipt-handle-2' }),
+				);
+			});
+
+			it('should return invalid messages to the queue', async () => {
+				await startTrigger({ invalidMessageAction: 'release' });
+
+				expect(ChangeMessageVisibilityCommand).toHaveBeenCalledWith({
+					QueueUrl: TEST_QUEUE_URL,
+					ReceiptHandle: 'receipt-handle-2',
+					VisibilityTimeout: 0,
+				});
+				expect(mockEmit.mock.calls[0][0][0]).toHaveLength(1);
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ ReceiptHandle: 'receipt-handle-1' }),
+				);
+			});
+
+			it('should wait for the interval after returning invalid messages in continuous mode', async () => {
+				setTriggerParameters(mockTriggerFunctions, {
+					pollingMode: 'continuous',
+					validateBody: schema,
+					invalidMessageAction: 'release',
+				});
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) =>
+					command instanceof ReceiveMessageCommand ? { Messages: [messages[1]] } : {},
+				);
+
+				const result = await startPolling();
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+
+				expect(mockEmit).not.toHaveBeenCalled();
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(1);
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(2);
+
+				await result.closeFunction?.();
+			});
+
+			it('should reject an invalid schema', async () => {
+				setTriggerParameters(mockTriggerFunctions, { validateBody: '{"type": "unknown-type"}' });
+
+				await expect(awsSqsTrigger.trigger.call(mockTriggerFunctions)).rejects.toThrow(
+					NodeOperationError,
+				);
+			});
+		});
+
+		describe('message filters', () => {
+			const messages = [
+				{
+					MessageId: 'msg-1',
+					ReceiptHandle: 'receipt-handle-1',
+					Body: '{"order":{"sku":"ABC-1","total":25}}',
+					MessageAttributes: { eventType: { DataType: 'String', StringValue: 'order.created' } },
+				},
+				{
+					MessageId: 'msg-2',
+					ReceiptHandle: 'receipt-handle-2',
+					Body: '{"order":{"sku":"XYZ-2","total":250}}',
+					MessageAttributes: { eventType: { DataType: 'String', StringValue: 'order.deleted' } },
+				},
+			];
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, { maxNumberOfMessages: 10, ...options });
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({ Messages: messages });
+
+				const result = await startPolling();
+				await result.closeFunction?.();
+			};
+
+			const emittedIds = () => mockEmit.mock.calls[0][0][0].map((item: any) => item.json.messageId);
+
+			it('should emit only messages matching an attribute rule', async () => {
+				await startTrigger({
+					filterRules: {
+						rule: [
+							{
+								source: 'messageAttribute',
+								key: 'eventType',
+								operation: 'in',
+								value: 'order.created, order.updated',
+							},
+						],
+					},
+				});
+
+				expect(emittedIds()).toEqual(['msg-1']);
+				expect(ChangeMessageVisibilityCommand).toHaveBeenCalledWith({
+					QueueUrl: TEST_QUEUE_URL,
+					ReceiptHandle: 'receipt-handle-2',
+					VisibilityTimeout: 0,
+				});
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ ReceiptHandle: 'receipt-handle-1' }),
+				);
+			});
+
+			it('should match body paths with numeric ranges', async () => {
+				await startTrigger({
+					filterRules: {
+						rule: [
+							{
+								source: 'body',
+								key: 'order.total',
+								operation: 'between',
+								minimum: 100,
+								maximum: 500,
+							},
+						],
+					},
+				});
+
+				expect(emittedIds()).toEqual(['msg-2']);
+			});
+
+			it('should require all rules to match by default', async () => {
+				await startTrigger({
+					filterRules: {
+						rule: [
+							{ source: 'body', key: 'order.sku', operation: 'prefix', value: 'ABC' },
+							{
+								source: 'messageAttribute',
+								key: 'eventType',
+								operation: 'equals',
+								value: 'order.deleted',
+							},
+						],
+					},
+					unmatchedMessageAction: 'ignore',
+				});
+
+				expect(mockEmit).not.toHaveBeenCalled();
+				expect(ChangeMessageVisibilityCommand).not.toHaveBeenCalled();
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+				expect(DeleteMessageBatchCommand).not.toHaveBeenCalled();
+			});
+
+			it('should accept messages matching any rule', async () => {
+				await startTrigger({
+					filterRules: {
+						rule: [
+							{ source: 'body', key: 'order.sku', operation: 'prefix', value: 'ABC' },
+							{
+								source: 'messageAttribute',
+								key: 'eventType',
+								operation: 'equals',
+								value: 'order.deleted',
+							},
+						],
+					},
+					filterMatch: 'any',
+				});
+
+				expect(emittedIds()).toEqual(['msg-1', 'msg-2']);
+			});
+
+			it('should delete unmatched messages', async () => {
+				await startTrigger({
+					filterRules: {
+						rule: [{ source: 'body', key: 'order.coupon', operation: 'exists' }],
+					},
+					unmatchedMessageAction: 'delete',
+				});
+
+				expect(mockEmit).not.toHaveBeenCalled();
+				expect(DeleteMessageBatchCommand).toHaveBeenCalledWith(
+					expect.objectContaining({
+						Entries: [
+							expect.objectContaining({ ReceiptHandle: 'receipt-handle-1' }),
+							expect.objectContaining({ ReceiptHandle: 'receipt-handle-2' }),
+						],
+					}),
+				);
+			});
+
+			it('should wait for the interval after returning unmatched messages in continuous mode', async () => {
+				setTriggerParameters(mockTriggerFunctions, {
+					pollingMode: 'continuous',
+					waitTimeSeconds: 20,
+					filterRules: {
+						rule: [{ source: 'body', key: 'order.coupon', operation: 'exists' }],
+					},
+				});
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) =>
+					command instanceof ReceiveMessageCommand ? { Messages: messages } : {},
+				);
+
+				const result = await startPolling();
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+
+				expect(mockEmit).not.toHaveBeenCalled();
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(1);
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(2);
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('FIFO queues', () => {
+			const fifoQueueUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/orders.fifo';
+			const fifoMessage = (id: string, groupId: string, sequenceNumber: string) => ({
+				MessageId: id,
+				ReceiptHandle: `receipt-handle-${id}`,
+				Body: `{"id":"${id}"}`,
+				Attributes: { MessageGroupId: groupId, SequenceNumber: sequenceNumber },
+			});
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(
+					mockTriggerFunctions,
+					{ maxNumberOfMessages: 10, ...options },
+					{ queue: fifoQueueUrl },
+				);
+
+				return await startPolling();
+			};
+
+			const emittedIds = (call: number) =>
+				mockEmit.mock.calls[call][0][0].map((item: any) => item.json.messageId);
+
+			const receiveInputs = () =>
+				(ReceiveMessageCommand as unknown as jest.Mock).mock.calls.map(([input]) => input);
+
+			it('should emit one execution per message group in sequence number order', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [
+						fifoMessage('a-2', 'group-a', '18849496460467696129'),
+						fifoMessage('b-1', 'group-b', '18849496460467696130'),
+						fifoMessage('a-1', 'group-a', '9849496460467696128'),
+					],
+				});
+
+				const result = await startTrigger({ attributeNames: 'ApproximateReceiveCount' });
+
+				expect(mockEmit).toHaveBeenCalledTimes(2);
+				expect(emittedIds(0)).toEqual(['a-1', 'a-2']);
+				expect(emittedIds(1)).toEqual(['b-1']);
+				expect(receiveInputs()[0]).toEqual(
+					expect.objectContaining({
+						AttributeNames: ['ApproximateReceiveCount', 'MessageGroupId', 'SequenceNumber'],
+						ReceiveRequestAttemptId: expect.any(String),
+					}),
+				);
+
+				await result.closeFunction?.();
+			});
+
+			it('should delete messages once the execution of their group has finished', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [fifoMessage('a-1', 'group-a', '1')],
+				});
+
+				const result = await startTrigger({});
+
+				expect(emittedIds(0)).toEqual(['a-1']);
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+
+				mockEmit.mock.calls[0][2].resolve({ data: { resultData: { error: new Error('Failed') } } });
+				await flushPromises();
+
+				expect(DeleteMessageCommand).toHaveBeenCalledWith({
+					QueueUrl: fifoQueueUrl,
+					ReceiptHandle: 'receipt-handle-a-1',
+				});
+
+				await result.closeFunction?.();
+			});
+
+			it('should keep messages of groups with a running execution hidden', async () => {
+				const receives = [
+					[fifoMessage('a-1', 'group-a', '1')],
+					[fifoMessage('a-2', 'group-a', '2'), fifoMessage('b-1', 'group-b', '3')],
+					[],
+					[fifoMessage('a-2', 'group-a', '2')],
+				];
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) =>
+					command instanceof ReceiveMessageCommand ? { Messages: receives.shift() ?? [] } : {},
+				);
+
+				const result = await startTrigger({});
+				expect(emittedIds(0)).toEqual(['a-1']);
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(ChangeMessageVisibilityCommand).not.toHaveBeenCalled();
+				expect(mockEmit).toHaveBeenCalledTimes(2);
+				expect(emittedIds(1)).toEqual(['b-1']);
+
+				// The execution of the first batch of group-a finishes
+				mockEmit.mock.calls[0][2].resolve({ data: { resultData: {} } });
+				await flushPromises();
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(mockEmit).toHaveBeenCalledTimes(3);
+				expect(emittedIds(2)).toEqual(['a-2']);
+
+				await result.closeFunction?.();
+			});
+
+			it('should delete redelivered messages of a running execution with their latest receipt handle', async () => {
+				const receives = [
+					[fifoMessage('a-1', 'group-a', '1')],
+					[
+						{
+							...fifoMessage('a-1', 'group-a', '1'),
+							ReceiptHandle: 'receipt-handle-a-1-redelivered',
+						},
+					],
+				];
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) =>
+					command instanceof ReceiveMessageCommand ? { Messages: receives.shift() ?? [] } : {},
+				);
+
+				const result = await startTrigger({});
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+				expect(receives).toHaveLength(0);
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+
+				mockEmit.mock.calls[0][2].resolve({ data: { resultData: {} } });
+				await flushPromises();
+
+				expect(DeleteMessageCommand).toHaveBeenCalledTimes(1);
+				expect(DeleteMessageCommand).toHaveBeenCalledWith({
+					QueueUrl: fifoQueueUrl,
+					ReceiptHandle: 'receipt-handle-a-1-redelivered',
+				});
+
+				await result.closeFunction?.();
+			});
+
+			it.each(['immediately', 'executionFinishesSuccessfully'])(
+				'should extend the visibility of messages until their execution has finished (%s)',
+				async (acknowledgeMode) => {
+					const receives = [[fifoMessage('a-1', 'group-a', '1')]];
+					(mockSqsClient.send as jest.Mock).mockImplementation(async (command) =>
+						command instanceof ReceiveMessageCommand ? { Messages: receives.shift() ?? [] } : {},
+					);
+
+					const result = await startTrigger({ acknowledgeMode, visibilityTimeout: 30 });
+
+					jest.advanceTimersByTime(15000);
+					await flushPromises();
+					expect(ChangeMessageVisibilityCommand).toHaveBeenCalledTimes(1);
+					expect(ChangeMessageVisibilityCommand).toHaveBeenCalledWith({
+						QueueUrl: fifoQueueUrl,
+						ReceiptHandle: 'receipt-handle-a-1',
+						VisibilityTimeout: 30,
+					});
+
+					mockEmit.mock.calls[0][2].resolve({ data: { resultData: {} } });
+					await flushPromises();
+					jest.advanceTimersByTime(30000);
+					await flushPromises();
+
+					expect(ChangeMessageVisibilityCommand).toHaveBeenCalledTimes(1);
+					expect(DeleteMessageCommand).toHaveBeenCalledTimes(1);
+
+					await result.closeFunction?.();
+				},
+			);
+
+			it('should wait for the interval when only busy groups are received in continuous mode', async () => {
+				const receives = [[fifoMessage('a-1', 'group-a', '1')]];
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) =>
+					command instanceof ReceiveMessageCommand
+						? { Messages: receives.shift() ?? [fifoMessage('a-2', 'group-a', '2')] }
+						: {},
+				);
+
+				const result = await startTrigger({ pollingMode: 'continuous', waitTimeSeconds: 20 });
+
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+				jest.advanceTimersByTime(0);
+				await flushPromises();
+
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(2);
+				expect(ChangeMessageVisibilityCommand).not.toHaveBeenCalled();
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(3);
+
+				await result.closeFunction?.();
+			});
+
+			it('should retry a failed receive with the same attempt ID', async () => {
+				jest.spyOn(Math, 'random').mockReturnValue(0);
+				(mockSqsClient.send as jest.Mock)
+					.mockRejectedValueOnce(
+						Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }),
+					)
+					.mockResolvedValue({});
+
+				const result = await startTrigger({});
+
+				jest.advanceTimersByTime(500);
+				await flushPromises();
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				const [failed, retried, next] = receiveInputs();
+				expect(retried.ReceiveRequestAttemptId).toBe(failed.ReceiveRequestAttemptId);
+				expect(next.ReceiveRequestAttemptId).not.toBe(failed.ReceiveRequestAttemptId);
+
+				await result.closeFunction?.();
+				jest.spyOn(Math, 'random').mockRestore();
+			});
+
+			it('should handle FIFO queues like standard queues when disabled', async () => {
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [fifoMessage('a-1', 'group-a', '1'), fifoMessage('b-1', 'group-b', '2')],
+				});
+
+				const result = await startTrigger({ fifoMode: 'disabled' });
+
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				expect(emittedIds(0)).toEqual(['a-1', 'b-1']);
+				expect(receiveInputs()[0].ReceiveRequestAttemptId).toBeUndefined();
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('deduplication', () => {
+			let staticData: Record<string, any>;
+
+			const message = (id: string, orderId: number) => ({
+				MessageId: id,
+				ReceiptHandle: `receipt-handle-${id}`,
+				Body: JSON.stringify({ order: { id: orderId } }),
+				MessageAttributes: { orderId: { DataType: 'Number', StringValue: String(orderId) } },
+			});
+
+			const startTrigger = async (options: Record<string, unknown>, ...receives: any[][]) => {
+				setTriggerParameters(mockTriggerFunctions, { maxNumberOfMessages: 10, ...options });
+				mockTriggerFunctions.getWorkflowStaticData.mockReturnValue(staticData);
+
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) => {
+					if (command instanceof ReceiveMessageCommand) {
+						return { Messages: receives.shift() ?? [] };
+					}
+					return {};
+				});
+
+				return await startPolling();
+			};
+
+			const emittedIds = () =>
+				mockEmit.mock.calls.map(([[items]]) => items.map((item: any) => item.json.messageId));
+
+			beforeEach(() => {
+				staticData = {};
+			});
+
+			it('should skip and delete messages with an already emitted message ID', async () => {
+				const result = await startTrigger(
+					{ deduplication: 'messageId' },
+					[message('msg-1', 1), message('msg-2', 2)],
+					[message('msg-2', 2), message('msg-3', 3)],
+				);
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(emittedIds()).toEqual([['msg-1', 'msg-2'], ['msg-3']]);
+				// The duplicate of msg-2 and msg-3 are deleted one by one
+				const deletedHandles = (DeleteMessageCommand as unknown as jest.Mock).mock.calls.map(
+					([input]) => input.ReceiptHandle,
+				);
+				expect(deletedHandles).toEqual(['receipt-handle-msg-2', 'receipt-handle-msg-3']);
+				expect(Object.keys(staticData.seenMessages)).toEqual(['msg-1', 'msg-2', 'msg-3']);
+
+				await result.closeFunction?.();
+			});
+
+			it('should deduplicate by body path within one receive and across restarts', async () => {
+				staticData.seenMessages = { '1': Date.now() + 60000 };
+
+				const result = await startTrigger({ deduplication: 'body', deduplicationKey: 'order.id' }, [
+					message('msg-1', 1),
+					message('msg-2', 2),
+					message('msg-3', 2),
+				]);
+
+				expect(emittedIds()).toEqual([['msg-2']]);
+
+				await result.closeFunction?.();
+			});
+
+			it('should emit messages again once their key has expired', async () => {
+				const result = await startTrigger(
+					{ deduplication: 'messageAttribute', deduplicationKey: 'orderId', deduplicationTtl: 5 },
+					[message('msg-1', 1)],
+					[message('msg-2', 1)],
+					[],
+					[],
+					[],
+					[message('msg-3', 1)],
+				);
+
+				for (let i = 0; i < 5; i++) {
+					jest.advanceTimersByTime(1000);
+					await flushPromises();
+				}
+
+				expect(emittedIds()).toEqual([['msg-1'], ['msg-3']]);
+
+				await result.closeFunction?.();
+			});
+
+			it('should keep at most the configured number of keys', async () => {
+				const result = await startTrigger(
+					{ deduplication: 'messageId', deduplicationCacheSize: 2 },
+					[message('msg-1', 1), message('msg-2', 2), message('msg-3', 3)],
+				);
+
+				expect(Object.keys(staticData.seenMessages)).toHaveLength(2);
+
+				await result.closeFunction?.();
+			});
+
+			it('should not remember messages that were not emitted because their deletion failed', async () => {
+				const receives = [
+					[message('msg-1', 1), message('msg-2', 2)],
+					[message('msg-1', 1), message('msg-2', 2)],
+				];
+				setTriggerParameters(mockTriggerFunctions, {
+					maxNumberOfMessages: 10,
+					deduplication: 'messageId',
+				});
+				mockTriggerFunctions.getWorkflowStaticData.mockReturnValue(staticData);
+				// Deleting the messages of the first receive fails
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) => {
+					if (command instanceof ReceiveMessageCommand) {
+						return { Messages: receives.shift() ?? [] };
+					}
+					if (command instanceof DeleteMessageBatchCommand && receives.length > 0) {
+						throw new Error('Access denied');
+					}
+					return {};
+				});
+
+				const result = await startPolling();
+
+				expect(mockEmit).not.toHaveBeenCalled();
+				expect(staticData.seenMessages).toEqual({});
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(emittedIds()).toEqual([['msg-1', 'msg-2']]);
+				expect(DeleteMessageBatchCommand).toHaveBeenCalledTimes(2);
+
+				await result.closeFunction?.();
+			});
+
+			it('should skip messages with a key in flight without deleting them', async () => {
+				const result = await startTrigger(
+					{ deduplication: 'messageId', acknowledgeMode: 'executionFinishesSuccessfully' },
+					[message('msg-1', 1)],
+					[message('msg-1', 1)],
+					[message('msg-1', 1)],
+				);
+
+				// The visibility timeout of msg-1 expires while its execution is running
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(emittedIds()).toEqual([['msg-1']]);
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+
+				mockEmit.mock.calls[0][2].resolve({ data: { resultData: { error: new Error('Failed') } } });
+				await flushPromises();
+
+				jest.advanceTimersByTime(1000);
+				await flushPromises();
+
+				expect(emittedIds()).toEqual([['msg-1'], ['msg-1']]);
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+				expect(staticData.seenMessages).toEqual({});
+
+				mockEmit.mock.calls[1][2].resolve({ data: { resultData: {} } });
+				await flushPromises();
+
+				expect(Object.keys(staticData.seenMessages)).toEqual(['msg-1']);
+				expect(DeleteMessageCommand).toHaveBeenCalledTimes(1);
+
+				await result.closeFunction?.();
+			});
+
+			it('should require a key to deduplicate by message attribute', async () => {
+				setTriggerParameters(mockTriggerFunctions, { deduplication: 'messageAttribute' });
+
+				await expect(awsSqsTrigger.trigger.call(mockTriggerFunctions)).rejects.toThrow(
+					NodeOperationError,
+				);
+			});
+		});
+
+		describe('multiple queues', () => {
+			const ordersUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/orders-eu';
+			const usOrdersUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/orders-us';
+
+			const setParameters = (parameters: Record<string, unknown>) =>
+				setTriggerParameters(mockTriggerFunctions, {}, parameters);
+
+			const receivedQueueUrls = () =>
+				(ReceiveMessageCommand as unknown as jest.Mock).mock.calls.map(([input]) => input.QueueUrl);
+
+			it('should poll every selected queue and tag items with their queue', async () => {
+				setParameters({ queueSelection: 'multiple', queues: [ordersUrl, usOrdersUrl] });
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) => {
+					if (command instanceof ReceiveMessageCommand) {
+						const { QueueUrl: queueUrl } = (ReceiveMessageCommand as unknown as jest.Mock).mock
+							.lastCall[0];
+						return {
+							Messages: [
+								{ MessageId: `msg-${queueUrl.slice(-2)}`, ReceiptHandle: 'handle', Body: '{}' },
+							],
+						};
+					}
+					return {};
+				});
+
+				const result = await startPolling();
+
+				expect(MockedSQSClient).toHaveBeenCalledTimes(1);
+				expect(receivedQueueUrls()).toEqual([ordersUrl, usOrdersUrl]);
+				expect(mockEmit).toHaveBeenCalledTimes(2);
+				expect(mockEmit.mock.calls[0][0][0][0].json).toEqual(
+					expect.objectContaining({
+						messageId: 'msg-eu',
+						queueUrl: ordersUrl,
+						queueName: 'orders-eu',
+					}),
+				);
+				expect(mockEmit.mock.calls[1][0][0][0].json).toEqual(
+					expect.objectContaining({
+						messageId: 'msg-us',
+						queueUrl: usOrdersUrl,
+						queueName: 'orders-us',
+					}),
+				);
+				// Each message is deleted from the queue it was received from
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ QueueUrl: ordersUrl }),
+				);
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ QueueUrl: usOrdersUrl }),
+				);
+
+				await result.closeFunction?.();
+			});
+
+			it('should poll the queues matching a name prefix', async () => {
+				setParameters({ queueSelection: 'prefix', queueNamePrefix: 'orders-' });
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({ QueueUrls: [ordersUrl], NextToken: 'next' })
+					.mockResolvedValueOnce({ QueueUrls: [usOrdersUrl] })
+					.mockResolvedValue({ Messages: [] });
+
+				const result = await startPolling();
+
+				expect(ListQueuesCommand).toHaveBeenCalledWith({
+					QueueNamePrefix: 'orders-',
+					MaxResults: 1000,
+					NextToken: undefined,
+				});
+				expect(ListQueuesCommand).toHaveBeenCalledWith({
+					QueueNamePrefix: 'orders-',
+					MaxResults: 1000,
+					NextToken: 'next',
+				});
+				expect(receivedQueueUrls()).toEqual([ordersUrl, usOrdersUrl]);
+
+				await result.closeFunction?.();
+			});
+
+			it('should fail when no queue matches the name prefix', async () => {
+				setParameters({ queueSelection: 'prefix', queueNamePrefix: 'missing-' });
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({});
+
+				await expect(awsSqsTrigger.trigger.call(mockTriggerFunctions)).rejects.toThrow(
+					'No queues found with the given Queue Name Prefix.',
+				);
+				expect(mockSqsClient.destroy).toHaveBeenCalled();
+			});
+
+			it('should not tag items when polling a single queue', async () => {
+				setParameters({ queue: ordersUrl });
+				(mockSqsClient.send as jest.Mock)
+					.mockResolvedValueOnce({
+						Messages: [{ MessageId: 'msg-1', ReceiptHandle: 'handle', Body: '{}' }],
+					})
+					.mockResolvedValue({});
+
+				const result = await startPolling();
+
+				expect(mockEmit.mock.calls[0][0][0][0].json.queueUrl).toBeUndefined();
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('queue priorities', () => {
+			const highUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/orders-high';
+			const lowUrl = 'https://sqs.us-east-1.amazonaws.com/123456789012/orders-low';
+
+			const startTrigger = async (options: Record<string, unknown>, messages: string[]) => {
+				setTriggerParameters(
+					mockTriggerFunctions,
+					{
+						queuePriorities: { queuePriority: [{ queue: 'orders-high', priority: 2 }] },
+						...options,
+					},
+					{ queueSelection: 'multiple', queues: [lowUrl, highUrl] },
+				);
+
+				// Queues return messages in the given order, e.g. ['high', 'low']
+				(mockSqsClient.send as jest.Mock).mockImplementation(async (command) => {
+					if (command instanceof ReceiveMessageCommand) {
+						const { QueueUrl } = (ReceiveMessageCommand as unknown as jest.Mock).mock.lastCall[0];
+						if (QueueUrl.endsWith(messages[0])) {
+							const id = messages.shift();
+							return { Messages: [{ MessageId: id, ReceiptHandle: 'handle', Body: '{}' }] };
+						}
+					}
+					return {};
+				});
+
+				return await startPolling();
+			};
+
+			const polledQueueNames = () =>
+				(ReceiveMessageCommand as unknown as jest.Mock).mock.calls.map(([input]) =>
+					input.QueueUrl.split('/').pop(),
+				);
+
+			it('should only poll lower priorities when higher ones are empty', async () => {
+				const result = await startTrigger({ pollingStrategy: 'priority' }, ['high', 'low']);
+
+				// A poll going through both priorities needs more than one flush
+				for (let i = 0; i < 2; i++) {
+					jest.advanceTimersByTime(1000);
+					await flushPromises();
+					await flushPromises();
+				}
+
+				expect(polledQueueNames()).toEqual([
+					'orders-high',
+					'orders-high',
+					'orders-low',
+					'orders-high',
+					'orders-low',
+				]);
+				expect(mockEmit).toHaveBeenCalledTimes(2);
+
+				await result.closeFunction?.();
+			});
+
+			it('should share polls between queues by priority', async () => {
+				const result = await startTrigger({ pollingStrategy: 'weighted' }, []);
+
+				for (let i = 0; i < 5; i++) {
+					jest.advanceTimersByTime(1000);
+					await flushPromises();
+				}
+
+				expect(polledQueueNames()).toEqual([
+					'orders-high',
+					'orders-low',
+					'orders-high',
+					'orders-high',
+					'orders-low',
+					'orders-high',
+				]);
+
+				await result.closeFunction?.();
+			});
+
+			it('should poll every queue with its own loop by default', async () => {
+				const result = await startTrigger({}, []);
+
+				expect(polledQueueNames()).toEqual(['orders-low', 'orders-high']);
+
+				await result.closeFunction?.();
+			});
+		});
+
+		describe('routing', () => {
+			const routingRules = {
+				route: [
+					{
+						outputName: 'Created',
+						source: 'messageAttribute',
+						key: 'eventType',
+						operation: 'equals',
+						value: 'order.created',
+					},
+					{
+						outputName: 'Large',
+						source: 'body',
+						key: 'total',
+						operation: 'between',
+						minimum: 100,
+						maximum: 1000,
+					},
+				],
+			};
+
+			const getOutputs = (parameters: Record<string, unknown>) => {
+				const expression = (awsSqsTrigger.description.outputs as string).slice(3, -2);
+				return new Function('$parameter', `return ${expression}`)(parameters);
+			};
+
+			const message = (id: string, eventType: string, body: string) => ({
+				MessageId: id,
+				ReceiptHandle: `receipt-handle-${id}`,
+				Body: body,
+				MessageAttributes: { eventType: { DataType: 'String', StringValue: eventType } },
+			});
+
+			const startTrigger = async (options: Record<string, unknown>) => {
+				setTriggerParameters(mockTriggerFunctions, {
+					maxNumberOfMessages: 10,
+					routingRules,
+					...options,
+				});
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce({
+					Messages: [
+						message('msg-1', 'order.created', '{"total":500}'),
+						message('msg-2', 'order.updated', '{"total":500}'),
+						message('msg-3', 'order.updated', '{"total":5}'),
+						message('msg-4', 'order.created', '{"total":"many"}'),
+					],
+				});
+
+				const result = await startPolling();
+				await result.closeFunction?.();
+
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				return (mockEmit.mock.calls[0][0] as any[][]).map((items) =>
+					items.map((item) => item.json.messageId),
+				);
+			};
+
+			it('should define an output per route plus a fallback output', () => {
+				expect(getOutputs({ options: {} })).toEqual([{ type: 'main', displayName: undefined }]);
+				expect(getOutputs({ options: { routingRules } })).toEqual([
+					{ type: 'main', displayName: 'Created' },
+					{ type: 'main', displayName: 'Large' },
+					{ type: 'main', displayName: 'Fallback' },
+				]);
+				expect(getOutputs({ options: { routingRules, validateBody: '{}' } })).toEqual([
+					{ type: 'main', displayName: 'Created' },
+					{ type: 'main', displayName: 'Large' },
+					{ type: 'main', displayName: 'Fallback' },
+					{ type: 'main', displayName: 'Invalid' },
+				]);
+				expect(getOutputs({ options: { validateBody: '{}' } })).toEqual([
+					{ type: 'main', displayName: 'Valid' },
+					{ type: 'main', displayName: 'Invalid' },
+				]);
+			});
+
+			it('should split a batch across the outputs of the first matching route', async () => {
+				expect(await startTrigger({})).toEqual([['msg-1', 'msg-4'], ['msg-2'], ['msg-3']]);
+			});
+
+			it('should route invalid items to the Invalid output', async () => {
+				const validateBody = JSON.stringify({ properties: { total: { type: 'number' } } });
+
+				expect(await startTrigger({ validateBody })).toEqual([
+					['msg-1'],
+					['msg-2'],
+					['msg-3'],
+					['msg-4'],
+				]);
+			});
+		});
+
+		describe('manual test execution', () => {
+			const startTrigger = async (options: Record<string, unknown>, receive: unknown) => {
+				setTriggerParameters(mockTriggerFunctions, { maxNumberOfMessages: 10, ...options });
+				mockTriggerFunctions.getMode.mockReturnValue('manual');
+
+				(mockSqsClient.send as jest.Mock).mockResolvedValueOnce(receive);
+
+				return await awsSqsTrigger.trigger.call(mockTriggerFunctions);
+			};
+
+			it('should emit a single receive and return the messages to the queue', async () => {
+				const result = await startTrigger(
+					{},
+					{ Messages: [{ MessageId: 'msg-1', ReceiptHandle: 'receipt-handle-1', Body: '{}' }] },
+				);
+
+				// No poll loop is started
+				jest.advanceTimersByTime(5000);
+				await flushPromises();
+				expect(ReceiveMessageCommand).not.toHaveBeenCalled();
+
+				await result.manualTriggerFunction!();
+
+				expect(ReceiveMessageCommand).toHaveBeenCalledTimes(1);
+				expect(mockEmit).toHaveBeenCalledTimes(1);
+				expect(mockEmit.mock.calls[0][0][0][0].json.messageId).toBe('msg-1');
+				expect(ChangeMessageVisibilityCommand).toHaveBeenCalledWith({
+					QueueUrl: TEST_QUEUE_URL,
+					ReceiptHandle: 'receipt-handle-1',
+					VisibilityTimeout: 0,
+				});
+				expect(DeleteMessageCommand).not.toHaveBeenCalled();
+				expect(DeleteMessageBatchCommand).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+
+			it('should delete the messages when configured', async () => {
+				const result = await startTrigger(
+					{ deleteOnManualTest: true },
+					{ Messages: [{ MessageId: 'msg-1', ReceiptHandle: 'receipt-handle-1', Body: '{}' }] },
+				);
+
+				await result.manualTriggerFunction!();
+
+				expect(DeleteMessageCommand).toHaveBeenCalledWith(
+					expect.objectContaining({ ReceiptHandle: 'receipt-handle-1' }),
+				);
+				expect(ChangeMessageVisibilityCommand).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+
+			it('should report an empty queue', async () => {
+				const result = await startTrigger({}, {});
+
+				await expect(result.manualTriggerFunction!()).rejects.toThrow(
+					'No messages found in the queue',
+				);
+				expect(mockEmit).not.toHaveBeenCalled();
+
+				await result.closeFunction?.();
+			});
+		});
 	});
 });